@@ -1,18 +1,183 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
-import VideoPlayer from './components/VideoPlayer';
-import DetectionOverlay from './components/DetectionOverlay';
-import { DetectedProduct } from './types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import VideoPlayer, { VideoPlayerHandle } from './components/VideoPlayer';
+import DetectionOverlay, { DetectionOverlayHandle, describeHotspot } from './components/DetectionOverlay';
+import ProductTimeline from './components/ProductTimeline';
+import ProductDetailPanel from './components/ProductDetailPanel';
+import WishlistPanel from './components/WishlistPanel';
+import RegionSelector from './components/RegionSelector';
+import TagEditorOverlay from './components/TagEditorOverlay';
+import TagEditorPanel from './components/TagEditorPanel';
+import ErrorBanner, { BannerError } from './components/ErrorBanner';
+import ResultsToolbar from './components/ResultsToolbar';
+import AnalyticsPanel from './components/AnalyticsPanel';
+import {
+  BoundingBox,
+  CuratedTag,
+  DetectedProduct,
+  DetectionProvider,
+  ProductDescription,
+  SavedProduct,
+  SimilarProduct,
+  ProductTimeline as ProductTimelineData,
+  TimelineEntry,
+  TrackedProduct,
+} from './types';
+import { createDetectionProvider } from './services/detectionProvider';
+import { createDetectionCache, withDetectionCache } from './services/detectionCache';
+import { getFileVideoId } from './services/videoIdentity';
+import { AnalysisProgress, DEFAULT_INTERVAL_SECONDS, SamplingMode, analyzeFullVideo } from './services/videoAnalysisJob';
+import { isAbortError } from './services/cancellation';
+import { DetectionErrorKind, errorKind } from './services/detectionErrors';
+import {
+  ResultPreferences,
+  categoriesOf,
+  filterProducts,
+  loadPreferences,
+  savePreferences,
+  sortProducts,
+} from './services/resultFilters';
+import { createProductTracker } from './services/productTracker';
+import { attachRetailerLinks } from './services/retailerRegistry';
+import { VideoSource, detectSourceKind, parseSourceList, probeSource } from './services/videoSource';
+import { createMockProvider } from './services/mockProvider';
+import { buildAppearances } from './services/productTimeline';
+import {
+  DetectionSession,
+  createSession,
+  parseSession,
+  sessionToFixtures,
+  sessionToWebVTT,
+} from './services/sessionFormat';
+import { ClickSurface, analytics, clickEvent, primaryRetailerId, withAnalytics } from './services/analytics';
+import { createBeaconSink, createConsoleSink, createSessionSummarySink } from './services/analyticsSinks';
+import { createCatalogIndex, parseCatalogFeed, searchByCrop } from './services/catalogIndex';
+import { createTag, loadCuratedTags, saveCuratedTags, tagFromProduct, tagsAt } from './services/curation';
+import {
+  History,
+  createHistory,
+  pushHistory,
+  redoHistory,
+  replacePresent,
+  undoHistory,
+} from './services/history';
+import {
+  downloadFile,
+  loadWishlist,
+  removeFromWishlist,
+  saveToWishlist,
+  wishlistKey,
+  wishlistToCSV,
+  wishlistToJSON,
+} from './services/wishlistStore';
 
 const SAMPLE_VIDEO = "https://storage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4";
 const MAX_FILE_SIZE_MB = 100;
+// Timed inside the cache so latency reflects model calls; hits are reported on their own
+const baseDetectionProvider = createDetectionProvider();
+const detectionProvider = withDetectionCache(withAnalytics(baseDetectionProvider), createDetectionCache(), {
+  onHit: response => analytics.track({
+    type: 'cache-hit',
+    provider: baseDetectionProvider.name,
+    productCount: response.products.length,
+  }),
+});
+
+const sessionSummary = createSessionSummarySink();
+analytics.addSink(sessionSummary);
+if (process.env.ANALYTICS_DEBUG) analytics.addSink(createConsoleSink());
+if (process.env.ANALYTICS_URL) analytics.addSink(createBeaconSink({ url: process.env.ANALYTICS_URL }));
+
+const resultCardId = (productId: string) => `result-${productId}`;
 
 const App: React.FC = () => {
   const [videoSrc, setVideoSrc] = useState<string>(SAMPLE_VIDEO);
-  const [detections, setDetections] = useState<DetectedProduct[]>([]);
+  const [sourceKind, setSourceKind] = useState(detectSourceKind(SAMPLE_VIDEO));
+  const [canCapture, setCanCapture] = useState(true);
+  const [playlist, setPlaylist] = useState<VideoSource[]>([]);
+  const [playlistIndex, setPlaylistIndex] = useState(0);
+  const [urlInput, setUrlInput] = useState('');
+  const [isProbing, setIsProbing] = useState(false);
+  const [videoId, setVideoId] = useState<string | undefined>(undefined);
+  const [detections, setDetections] = useState<TrackedProduct[]>([]);
+  const [currentTime, setCurrentTime] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Read out by the polite live region for screen reader users
+  const [announcement, setAnnouncement] = useState('');
+  const [focusedProductId, setFocusedProductId] = useState<string | null>(null);
+  const overlayRef = useRef<DetectionOverlayHandle>(null);
+  const [preferences, setPreferences] = useState<ResultPreferences>(loadPreferences);
   const [hasUploaded, setHasUploaded] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setErrorState] = useState<BannerError | null>(null);
+  const [liveScan, setLiveScan] = useState(false);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [productTimeline, setProductTimeline] = useState<ProductTimelineData | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const [samplingMode, setSamplingMode] = useState<SamplingMode>('interval');
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const playerRef = useRef<VideoPlayerHandle>(null);
+
+  const setError = useCallback((message: string | null, kind?: DetectionErrorKind, retry?: () => void) => {
+    // Notices without a detection failure behind them aren't errors worth counting
+    if (message && kind) analytics.track({ type: 'error', kind, message });
+    setErrorState(message ? { message, kind, retry } : null);
+  }, []);
+  const retryFrameAnalysis = () => playerRef.current?.analyze();
+  const trackerRef = useRef(createProductTracker());
+  const [selectedProduct, setSelectedProduct] = useState<DetectedProduct | null>(null);
+  const [selectedThumbnail, setSelectedThumbnail] = useState<string | null>(null);
+  const [description, setDescription] = useState<ProductDescription | null>(null);
+  const [isDescribing, setIsDescribing] = useState(false);
+  const describeAbortRef = useRef<AbortController | null>(null);
+  const catalogRef = useRef(createCatalogIndex());
+  // Null until the team loads a product feed
+  const [catalogLabel, setCatalogLabel] = useState<string | null>(null);
+  const [similar, setSimilar] = useState<SimilarProduct[] | null>(null);
+  const [isSearchingSimilar, setIsSearchingSimilar] = useState(false);
+  // Bumped whenever the panel closes so late results are dropped
+  const similarSearchRef = useRef(0);
+  const [savedItems, setSavedItems] = useState<SavedProduct[]>([]);
+  const [pendingSeek, setPendingSeek] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isSelectingRegion, setIsSelectingRegion] = useState(false);
+  const [isIdentifying, setIsIdentifying] = useState(false);
+  const identifyAbortRef = useRef<AbortController | null>(null);
+  const userSelectionCountRef = useRef(0);
+
+  useEffect(() => {
+    loadWishlist()
+      .then(setSavedItems)
+      .catch(err => console.warn("Could not load saved items:", err));
+  }, []);
+
+  // Applied after a saved item switches the video source
+  useEffect(() => {
+    if (pendingSeek === null) return;
+    playerRef.current?.seek(pendingSeek);
+    setPendingSeek(null);
+  }, [pendingSeek, videoSrc]);
+
+  // Track ids only make sense within a single video
+  useEffect(() => trackerRef.current.reset(), [videoSrc]);
+
+  const handleDetections = useCallback((products: DetectedProduct[], timestamp?: number) => {
+    if (timestamp === undefined) {
+      setDetections([]);
+      return;
+    }
+    setDetections(trackerRef.current.update(timestamp, products));
+    // Count what the viewer's filters actually show
+    const shown = filterProducts(products, preferences).length;
+    setAnnouncement(shown === 0
+      ? 'No products found'
+      : `${shown} product${shown === 1 ? '' : 's'} found`);
+  }, [preferences]);
+
+  // Slide boxes along their tracks while the video moves between analyzed frames
+  const overlayProducts = useMemo(
+    () => trackerRef.current.interpolate(detections, currentTime),
+    [detections, currentTime]
+  );
 
   // Cleanup effect for blob URLs to prevent memory leaks
   useEffect(() => {
@@ -23,6 +188,543 @@ const App: React.FC = () => {
     };
   }, [videoSrc]);
 
+  const switchSource = useCallback((source: VideoSource) => {
+    setVideoSrc(source.url);
+    setSourceKind(source.kind);
+    setCanCapture(source.canCapture);
+    setVideoId(undefined);
+    setDetections([]);
+    setProductTimeline(null);
+    setHasUploaded(source.url !== SAMPLE_VIDEO);
+  }, []);
+
+  /** Probes each URL up front and loads the playable ones as a playlist. */
+  const loadUrls = async (urls: string[]): Promise<boolean> => {
+    setIsProbing(true);
+    setError(null);
+    try {
+      const probed = await Promise.all(urls.map(async url => {
+        const kind = detectSourceKind(url);
+        const result = await probeSource(url, kind);
+        return { url, kind, ...result };
+      }));
+
+      const playable = probed.filter(p => p.playable);
+      if (playable.length === 0) {
+        setError("None of the provided URLs could be loaded. Check that they point to MP4/WebM files or HLS/DASH manifests.");
+        return false;
+      }
+
+      const sources = playable.map(({ url, kind, canCapture }) => ({ url, kind, canCapture }));
+      setPlaylist(sources);
+      setPlaylistIndex(0);
+      switchSource(sources[0]);
+
+      const skipped = probed.length - playable.length;
+      if (!sources[0].canCapture) {
+        setError("This source blocks frame capture (no CORS headers). You can watch it, but products can't be detected.");
+      } else if (skipped > 0) {
+        setError(`${skipped} URL${skipped === 1 ? '' : 's'} could not be loaded and ${skipped === 1 ? 'was' : 'were'} skipped.`);
+      }
+      return true;
+    } finally {
+      setIsProbing(false);
+    }
+  };
+
+  const handleUrlSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const urls = parseSourceList(urlInput);
+    if (urls.length === 0) {
+      setError("Please enter at least one valid http(s) video URL.");
+      return;
+    }
+    if (await loadUrls(urls)) setUrlInput('');
+  };
+
+  const playPlaylistItem = (index: number) => {
+    const source = playlist[index];
+    if (!source) return;
+    setPlaylistIndex(index);
+    switchSource(source);
+    if (!source.canCapture) {
+      setError("This source blocks frame capture (no CORS headers). You can watch it, but products can't be detected.");
+    }
+  };
+
+  const handleEnded = () => {
+    if (playlistIndex < playlist.length - 1) playPlaylistItem(playlistIndex + 1);
+  };
+
+  const currentVideoId = videoId || videoSrc;
+
+  useEffect(() => {
+    analytics.setContext(() => ({
+      videoId: currentVideoId,
+      videoTime: playerRef.current?.getCurrentTime(),
+    }));
+    return () => analytics.setContext(null);
+  }, [currentVideoId]);
+
+  const trackOutboundClick = (product: DetectedProduct, retailerId: string, url: string, surface: ClickSurface) =>
+    analytics.track(clickEvent(product, retailerId, url, surface));
+  const [importedSession, setImportedSession] = useState<DetectionSession | null>(null);
+
+  // An imported session replays its frames for its own video instead of calling the API
+  const isSessionAttached = !!importedSession && importedSession.video.id === currentVideoId;
+  const activeProvider = useMemo<DetectionProvider>(() => {
+    if (!importedSession || importedSession.video.id !== currentVideoId) return detectionProvider;
+    // Show exactly what was exported: stored links, and nothing between frames that weren't analyzed
+    const replay = createMockProvider(sessionToFixtures(importedSession), 0, {
+      maxGapSeconds: DEFAULT_INTERVAL_SECONDS,
+      keepStoredLinks: true,
+    });
+    // Identify answers from the recording too, so replays never reach the live API
+    return { ...detectionProvider, name: 'session', detect: replay.detect, identify: replay.identify };
+  }, [importedSession, currentVideoId]);
+
+  useEffect(() => {
+    if (!importedSession || !isSessionAttached) return;
+    const { video, frames } = importedSession;
+    setProductTimeline({
+      videoId: video.id,
+      duration: video.duration,
+      appearances: buildAppearances(frames, video.duration),
+      samples: frames,
+    });
+  }, [importedSession, isSessionAttached]);
+
+  const exportSession = (format: 'json' | 'vtt') => {
+    const session = createSession({
+      videoId: currentVideoId,
+      videoSrc,
+      duration: playerRef.current?.getDuration() ?? 0,
+      provider: isSessionAttached ? importedSession!.provider : detectionProvider,
+      frames: [...(productTimeline?.samples || []), ...timeline],
+    });
+    if (session.frames.length === 0) {
+      setError("Nothing to export yet. Pause the video or run a full analysis first.");
+      return;
+    }
+    if (format === 'json') {
+      downloadFile('shopvision-session.json', JSON.stringify(session, null, 2), 'application/json');
+    } else {
+      downloadFile('shopvision-products.vtt', sessionToWebVTT(session), 'text/vtt');
+    }
+  };
+
+  const handleSessionImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    try {
+      const session = parseSession(await file.text());
+      setImportedSession(session);
+      if (session.video.id === currentVideoId) return;
+
+      if (session.video.src) {
+        await loadUrls([session.video.src]);
+      } else {
+        setError("Session loaded. Upload the original video file to attach its detections.");
+      }
+    } catch (err: any) {
+      console.error("Session Import Error:", err);
+      setError(err.message || "Could not import the session file.");
+    }
+  };
+
+  const cancelFullAnalysis = useCallback(() => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    setAnalysisProgress(null);
+  }, []);
+
+  // A running pre-analysis belongs to the video it was started on
+  useEffect(() => cancelFullAnalysis, [videoSrc, cancelFullAnalysis]);
+
+  const startFullAnalysis = async () => {
+    cancelFullAnalysis();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setProductTimeline(null);
+    setAnalysisProgress({ completed: 0, total: 0, analyzedFrames: 0, failedFrames: 0 });
+
+    try {
+      const { failures, ...result } = await analyzeFullVideo(videoSrc, activeProvider, {
+        videoId: videoId || videoSrc,
+        sourceKind,
+        mode: samplingMode,
+        signal: controller.signal,
+        onProgress: setAnalysisProgress,
+      });
+      if (controller.signal.aborted) return;
+      setProductTimeline(result);
+      if (failures.length > 0) {
+        const attempted = result.samples.length + failures.length;
+        setError(
+          `${failures.length} of ${attempted} frames could not be analyzed (${failures[0].message}). The timeline shows the rest.`,
+          undefined,
+          startFullAnalysis
+        );
+      }
+    } catch (err: any) {
+      if (isAbortError(err) || controller.signal.aborted) return;
+      console.error("Full Analysis Error:", err);
+      setError(err.message || "Full video analysis failed.", errorKind(err), startFullAnalysis);
+    } finally {
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setAnalysisProgress(null);
+      }
+    }
+  };
+
+  const closeProductDetails = useCallback(() => {
+    describeAbortRef.current?.abort();
+    describeAbortRef.current = null;
+    setSelectedProduct(null);
+    setDescription(null);
+    setIsDescribing(false);
+    similarSearchRef.current++;
+    setSimilar(null);
+    setIsSearchingSimilar(false);
+  }, []);
+
+  const openProductDetails = (product: DetectedProduct) => {
+    closeProductDetails();
+    setSelectedProduct(product);
+    try {
+      setSelectedThumbnail(playerRef.current?.cropRegion(product.box) ?? null);
+    } catch {
+      // A tainted frame just means no thumbnail
+      setSelectedThumbnail(null);
+    }
+  };
+
+  const describeSelectedProduct = async () => {
+    if (!selectedProduct || !selectedThumbnail || !detectionProvider.describe) return;
+    const controller = new AbortController();
+    describeAbortRef.current = controller;
+    setIsDescribing(true);
+
+    try {
+      const result = await detectionProvider.describe(selectedThumbnail, selectedProduct, controller.signal);
+      if (!controller.signal.aborted) setDescription(result);
+    } catch (err: any) {
+      if (isAbortError(err) || controller.signal.aborted) return;
+      console.error("Describe Error:", err);
+      setError(err.message || "Failed to describe the selected item.", errorKind(err), describeSelectedProduct);
+    } finally {
+      if (describeAbortRef.current === controller) {
+        describeAbortRef.current = null;
+        setIsDescribing(false);
+      }
+    }
+  };
+
+  const findSimilarProducts = async () => {
+    if (!selectedThumbnail || catalogRef.current.size === 0) return;
+    const search = similarSearchRef.current;
+    setIsSearchingSimilar(true);
+
+    try {
+      const matches = await searchByCrop(catalogRef.current, selectedThumbnail);
+      if (search === similarSearchRef.current) setSimilar(matches);
+    } catch (err: any) {
+      if (search !== similarSearchRef.current) return;
+      console.error("Similar Search Error:", err);
+      setError(err.message || "Failed to search the catalog.");
+    } finally {
+      if (search === similarSearchRef.current) setIsSearchingSimilar(false);
+    }
+  };
+
+  const loadCatalogFeed = async (file: File) => {
+    setIsSearchingSimilar(true);
+    try {
+      const { products, skipped } = parseCatalogFeed(await file.text(), file.name);
+      const result = await catalogRef.current.build(products);
+      const dropped = skipped.length + result.skipped.length;
+      if (dropped > 0) console.warn(`Skipped ${dropped} catalog rows:`, [...skipped, ...result.skipped]);
+      if (result.indexed === 0) {
+        setError(`No products from ${file.name} could be indexed. Check that image URLs allow cross-origin access.`);
+      }
+      setCatalogLabel(result.indexed > 0 ? `${result.indexed} products from ${file.name}` : null);
+      setSimilar(null);
+    } catch (err: any) {
+      console.error("Catalog Feed Error:", err);
+      setError(err.message || "Failed to load the product feed.");
+    } finally {
+      setIsSearchingSimilar(false);
+    }
+  };
+
+  const savedKeys = useMemo(() => new Set(savedItems.map(item => item.key)), [savedItems]);
+  const isSaved = (product: DetectedProduct) => savedKeys.has(wishlistKey(currentVideoId, product));
+
+  const toggleSaved = async (product: DetectedProduct) => {
+    const key = wishlistKey(currentVideoId, product);
+    try {
+      if (savedKeys.has(key)) {
+        await removeFromWishlist(key);
+        setSavedItems(items => items.filter(item => item.key !== key));
+        return;
+      }
+
+      let thumbnail: string | null = null;
+      try {
+        thumbnail = playerRef.current?.cropRegion(product.box) ?? null;
+      } catch {
+        // Cross-origin frames can't be cropped; save without a thumbnail
+      }
+
+      const item: SavedProduct = {
+        key,
+        product,
+        videoId: currentVideoId,
+        videoSrc,
+        timestamp: playerRef.current?.getCurrentTime() ?? 0,
+        thumbnail,
+        savedAt: Date.now(),
+      };
+      await saveToWishlist(item);
+      setSavedItems(items => [item, ...items.filter(i => i.key !== key)]);
+    } catch (err) {
+      console.error("Wishlist Error:", err);
+      setError("Could not update your saved items. Storage may be full or disabled.");
+    }
+  };
+
+  const removeSaved = async (item: SavedProduct) => {
+    try {
+      await removeFromWishlist(item.key);
+      setSavedItems(items => items.filter(i => i.key !== item.key));
+    } catch (err) {
+      console.error("Wishlist Error:", err);
+      setError("Could not remove the saved item.");
+    }
+  };
+
+  const seekToSaved = async (item: SavedProduct) => {
+    if (item.videoId === currentVideoId || item.videoSrc === videoSrc) {
+      playerRef.current?.seek(item.timestamp);
+      return;
+    }
+    if (item.videoSrc.startsWith('blob:')) {
+      setError("That item was saved from an uploaded file. Upload the same video again to jump back to it.");
+      return;
+    }
+    if (await loadUrls([item.videoSrc])) {
+      setPendingSeek(item.timestamp);
+    }
+  };
+
+  const exportSaved = (format: 'json' | 'csv') => {
+    if (format === 'json') {
+      downloadFile('shopvision-saved-items.json', wishlistToJSON(savedItems), 'application/json');
+    } else {
+      downloadFile('shopvision-saved-items.csv', wishlistToCSV(savedItems), 'text/csv');
+    }
+  };
+
+  const [editorMode, setEditorMode] = useState(false);
+  const [tagHistory, setTagHistory] = useState<History<CuratedTag[]>>(() => createHistory([]));
+  const [selectedTagId, setSelectedTagId] = useState<string | null>(null);
+  const tags = tagHistory.present;
+  // Set when an edit changes the tags, so loading another video's tags isn't saved back
+  const tagsEditedRef = useRef(false);
+
+  // Curated tags are stored per video
+  useEffect(() => {
+    tagsEditedRef.current = false;
+    setTagHistory(createHistory(loadCuratedTags(currentVideoId)));
+    setSelectedTagId(null);
+  }, [currentVideoId]);
+
+  // Saved after the render rather than in the updater, which React may run twice
+  useEffect(() => {
+    if (!tagsEditedRef.current) return;
+    tagsEditedRef.current = false;
+    saveCuratedTags(currentVideoId, tags);
+  }, [tags]);
+
+  const updateTags = (update: (history: History<CuratedTag[]>) => History<CuratedTag[]>) => {
+    setTagHistory(history => {
+      const next = update(history);
+      if (next.present !== history.present) tagsEditedRef.current = true;
+      return next;
+    });
+  };
+
+  // Set on focus or drag start; the first real edit after it opens the undo step,
+  // so focusing a field or clicking a box without changing anything records nothing
+  const tagChangePending = useRef(false);
+  const beginTagChange = () => {
+    tagChangePending.current = true;
+  };
+  const changeTag = (id: string, patch: Partial<CuratedTag>) => {
+    const record = tagChangePending.current ? pushHistory : replacePresent;
+    tagChangePending.current = false;
+    updateTags(h => record(h, h.present.map(tag => (tag.id === id ? { ...tag, ...patch } : tag))));
+  };
+  const deleteTag = (id: string) => {
+    updateTags(h => pushHistory(h, h.present.filter(tag => tag.id !== id)));
+    setSelectedTagId(null);
+  };
+  const addTags = (added: CuratedTag[]) => {
+    if (added.length === 0) return;
+    updateTags(h => pushHistory(h, [...h.present, ...added]));
+    setSelectedTagId(added[added.length - 1].id);
+  };
+  const videoDuration = () => playerRef.current?.getDuration() ?? 0;
+
+  useEffect(() => {
+    if (!editorMode) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select')) return;
+
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        updateTags(e.shiftKey ? redoHistory : undoHistory);
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedTagId) {
+        e.preventDefault();
+        deleteTag(selectedTagId);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [editorMode, selectedTagId, currentVideoId]);
+
+  // Published tags replace model output whenever the editor is closed
+  const curatedActive = tags.length > 0 && !editorMode;
+  const curatedProducts = useMemo<TrackedProduct[]>(
+    () => tagsAt(tags, currentTime).map(product => {
+      const tag = tags.find(t => t.id === product.id)!;
+      return { ...product, firstSeen: tag.start, lastSeen: tag.end, screenTime: tag.end - tag.start };
+    }),
+    [tags, currentTime]
+  );
+  const resultProducts = curatedActive ? curatedProducts : detections;
+  const hotspotProducts = useMemo(
+    () => filterProducts(curatedActive ? curatedProducts : overlayProducts, preferences),
+    [curatedActive, curatedProducts, overlayProducts, preferences]
+  );
+  const visibleResults = useMemo(
+    () => sortProducts(filterProducts(resultProducts, preferences), preferences.sortBy),
+    [resultProducts, preferences]
+  );
+
+  const updatePreferences = (next: ResultPreferences) => {
+    setPreferences(next);
+    savePreferences(next);
+  };
+
+  useEffect(() => {
+    if (isProcessing) setAnnouncement('Analyzing frame…');
+  }, [isProcessing]);
+
+  // Keep the results card of the hotspot in focus visible
+  useEffect(() => {
+    if (focusedProductId) {
+      document.getElementById(resultCardId(focusedProductId))?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [focusedProductId]);
+
+  // ] and [ step keyboard focus through the hotspots on the video
+  useEffect(() => {
+    if (editorMode || isSelectingRegion) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== ']' && e.key !== '[') return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      if ((e.target as HTMLElement).closest('input, textarea, select')) return;
+      if (hotspotProducts.length === 0) return;
+
+      e.preventDefault();
+      const current = hotspotProducts.findIndex(p => p.id === focusedProductId);
+      const step = e.key === ']' ? 1 : -1;
+      const next = current === -1
+        ? (step === 1 ? 0 : hotspotProducts.length - 1)
+        : (current + step + hotspotProducts.length) % hotspotProducts.length;
+      overlayRef.current?.focusProduct(hotspotProducts[next].id);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [editorMode, isSelectingRegion, hotspotProducts, focusedProductId]);
+
+  // An identification belongs to the frame it was asked about; playing,
+  // seeking or switching sources drops it
+  const cancelIdentify = useCallback(() => {
+    identifyAbortRef.current?.abort();
+    identifyAbortRef.current = null;
+    setIsIdentifying(false);
+  }, []);
+
+  const handlePlayStateChange = useCallback((playing: boolean) => {
+    setIsPlaying(playing);
+    // Region selection only makes sense on a still frame
+    if (playing) {
+      setIsSelectingRegion(false);
+      cancelIdentify();
+    }
+  }, [cancelIdentify]);
+
+  useEffect(() => cancelIdentify, [videoSrc, cancelIdentify]);
+
+  const identifySelectedRegion = async (region: BoundingBox) => {
+    setIsSelectingRegion(false);
+    const provider = activeProvider;
+    if (!provider.identify) return;
+
+    let crop: string | null = null;
+    try {
+      crop = playerRef.current?.cropRegion(region) ?? null;
+    } catch (err: any) {
+      setError(err.message, errorKind(err));
+      return;
+    }
+    if (!crop) return;
+
+    const timestamp = playerRef.current?.getCurrentTime() ?? 0;
+    cancelIdentify();
+    const controller = new AbortController();
+    identifyAbortRef.current = controller;
+    setIsIdentifying(true);
+    try {
+      const result = await provider.identify(crop, region, { videoId: currentVideoId, timestamp }, controller.signal);
+      if (controller.signal.aborted) return;
+      if (!result) {
+        setError("No product could be identified in the selected area. Try a tighter selection.");
+        return;
+      }
+
+      const product = attachRetailerLinks({
+        ...result,
+        id: `user-${++userSelectionCountRef.current}`,
+        box: region,
+        shoppingLink: '',
+        origin: 'user' as const,
+        firstSeen: timestamp,
+        lastSeen: timestamp,
+        screenTime: 0,
+      });
+      setDetections(current => [...current, product]);
+    } catch (err: any) {
+      if (isAbortError(err) || controller.signal.aborted) return;
+      console.error("Identify Error:", err);
+      setError(err.message || "Failed to identify the selected area.", errorKind(err), () => identifySelectedRegion(region));
+    } finally {
+      if (identifyAbortRef.current === controller) {
+        identifyAbortRef.current = null;
+        setIsIdentifying(false);
+      }
+    }
+  };
+
+  // Details refer to a frame of the current video only
+  useEffect(() => closeProductDetails, [videoSrc, closeProductDetails]);
+
   const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     setError(null); // Clear previous errors
@@ -69,39 +771,28 @@ const App: React.FC = () => {
         throw new Error("Local URL generation failed.");
       }
 
-      setVideoSrc(url);
-      setDetections([]);
-      setHasUploaded(true);
+      switchSource({ url, kind: 'file', canCapture: true });
+      setPlaylist([]);
       setError(null);
+
+      // Blob URLs change every upload; identify the file by content for caching
+      getFileVideoId(file)
+        .then(id => setVideoId(id))
+        .catch(err => console.warn("Could not fingerprint video file:", err));
     } catch (err) {
       console.error("Upload Error:", err);
       setError("Encountered a critical error while preparing the video file. The file might be corrupted or in an incompatible format.");
     }
-  }, [videoSrc]);
+  }, [videoSrc, switchSource]);
 
   const clearError = () => setError(null);
 
   return (
     <div className="min-h-screen flex flex-col items-center py-10 px-4 md:px-10">
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
       {/* Error Banner */}
-      {error && (
-        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-full max-w-md animate-bounce-short">
-          <div className="bg-red-500 text-white px-6 py-4 rounded-xl shadow-2xl flex items-center gap-4 border border-red-400">
-            <i className="fas fa-exclamation-triangle text-2xl"></i>
-            <div className="flex-1">
-              <p className="font-bold text-sm uppercase tracking-tight">Upload Warning</p>
-              <p className="text-xs font-medium leading-tight opacity-95">{error}</p>
-            </div>
-            <button 
-              onClick={clearError}
-              className="hover:bg-red-600/80 p-2 rounded-full transition-colors flex items-center justify-center"
-              aria-label="Close error"
-            >
-              <i className="fas fa-times"></i>
-            </button>
-          </div>
-        </div>
-      )}
+      {error && <ErrorBanner error={error} onDismiss={clearError} />}
 
       {/* Header */}
       <header className="mb-10 text-center">
@@ -125,31 +816,169 @@ const App: React.FC = () => {
           <div className="relative">
             <VideoPlayer 
               src={videoSrc} 
-              onDetections={setDetections} 
+              sourceKind={sourceKind}
+              canCapture={canCapture}
+              videoId={videoId}
+              controlRef={playerRef}
+              provider={activeProvider}
+              liveScan={liveScan}
+              onLiveScanStop={() => setLiveScan(false)}
+              autoAnalyze={!curatedActive && !editorMode}
+              onTimeline={setTimeline}
+              onDetections={handleDetections}
+              onTimeUpdate={setCurrentTime}
+              onPlayStateChange={handlePlayStateChange}
+              onSeeking={cancelIdentify}
+              onEnded={handleEnded}
               onProcessing={setIsProcessing}
-              onError={setError}
-            />
-            <DetectionOverlay 
-              products={detections} 
-              isProcessing={isProcessing} 
-            />
+              onError={(message, kind) => setError(message, kind, retryFrameAnalysis)}
+            >
+              {editorMode ? (
+                <TagEditorOverlay
+                  tags={tags.filter(tag => tag.start <= currentTime && currentTime < tag.end)}
+                  selectedId={selectedTagId}
+                  onSelect={setSelectedTagId}
+                  onBeginChange={beginTagChange}
+                  onChangeBox={(id, box) => changeTag(id, { box })}
+                  onCreate={box => addTags([createTag(box, currentTime, videoDuration())])}
+                />
+              ) : (
+                <DetectionOverlay 
+                  products={hotspotProducts} 
+                  isProcessing={isProcessing || isIdentifying} 
+                  focusedId={focusedProductId}
+                  controlRef={overlayRef}
+                  onSelect={openProductDetails}
+                  onFocusProduct={product => setFocusedProductId(product?.id ?? null)}
+                  onToggleSave={toggleSaved}
+                  isSaved={isSaved}
+                  onHover={(product, dwellMs) => analytics.track({
+                    type: 'hover',
+                    productId: product.id,
+                    name: product.name,
+                    category: product.category.toLowerCase(),
+                    dwellMs,
+                  })}
+                  onOutboundClick={(product, retailerId, url) => trackOutboundClick(product, retailerId, url, 'overlay')}
+                />
+              )}
+              {isSelectingRegion && (
+                <RegionSelector
+                  onSelect={identifySelectedRegion}
+                  onCancel={() => setIsSelectingRegion(false)}
+                />
+              )}
+            </VideoPlayer>
           </div>
+          {productTimeline && (
+            <ProductTimeline
+              timeline={productTimeline}
+              onSeek={time => playerRef.current?.seek(time)}
+            />
+          )}
         </div>
 
         {/* Controls and Analytics */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="md:col-span-2 space-y-4">
             <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700/50 backdrop-blur-md min-h-[300px] flex flex-col">
-              <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
-                <i className="fas fa-shopping-bag text-blue-500"></i>
-                Analysis Results
-              </h3>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold flex items-center gap-2">
+                  <i className="fas fa-shopping-bag text-blue-500"></i>
+                  Analysis Results
+                </h3>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => {
+                      setEditorMode(on => !on);
+                      setIsSelectingRegion(false);
+                      setLiveScan(false);
+                    }}
+                    className={`flex items-center gap-2 text-xs font-semibold px-3 py-1.5 rounded-full border transition-colors ${
+                      editorMode
+                        ? 'bg-emerald-500/20 border-emerald-500/50 text-emerald-300'
+                        : 'bg-slate-700/40 border-slate-600 text-slate-400 hover:text-slate-200'
+                    }`}
+                    aria-pressed={editorMode}
+                  >
+                    <i className="fas fa-pen"></i>
+                    {editorMode ? 'Done Editing' : 'Edit Tags'}
+                  </button>
+                  {!editorMode && activeProvider.identify && (
+                    <button
+                      onClick={() => setIsSelectingRegion(on => !on)}
+                      disabled={isPlaying || isProcessing || isIdentifying}
+                      title={isPlaying ? 'Pause the video to select an item' : 'Select an item the AI missed'}
+                      className={`flex items-center gap-2 text-xs font-semibold px-3 py-1.5 rounded-full border transition-colors disabled:opacity-40 ${
+                        isSelectingRegion
+                          ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                          : 'bg-slate-700/40 border-slate-600 text-slate-400 hover:text-slate-200'
+                      }`}
+                      aria-pressed={isSelectingRegion}
+                    >
+                      <i className="fas fa-crosshairs"></i>
+                      Select Item
+                    </button>
+                  )}
+                  {!editorMode && (
+                    <button
+                      onClick={() => setLiveScan(on => !on)}
+                      className={`flex items-center gap-2 text-xs font-semibold px-3 py-1.5 rounded-full border transition-colors ${
+                        liveScan
+                          ? 'bg-red-500/20 border-red-500/50 text-red-300'
+                          : 'bg-slate-700/40 border-slate-600 text-slate-400 hover:text-slate-200'
+                      }`}
+                      aria-pressed={liveScan}
+                    >
+                      <span className={`w-2 h-2 rounded-full ${liveScan ? 'bg-red-500 animate-pulse' : 'bg-slate-500'}`}></span>
+                      Live Scan
+                    </button>
+                  )}
+                </div>
+              </div>
               
+              {curatedActive && (
+                <p className="mb-4 text-[11px] text-emerald-400/80 flex items-center gap-2">
+                  <i className="fas fa-check-circle"></i>
+                  Showing {tags.length} curated tag{tags.length === 1 ? '' : 's'} instead of live detections.
+                </p>
+              )}
+
+              {!editorMode && resultProducts.length > 0 && (
+                <ResultsToolbar
+                  preferences={preferences}
+                  categories={categoriesOf(resultProducts)}
+                  hiddenCount={resultProducts.length - visibleResults.length}
+                  onChange={updatePreferences}
+                />
+              )}
+
               <div className="flex-1">
-                {detections.length === 0 && !isProcessing ? (
+                {editorMode ? (
+                  <TagEditorPanel
+                    tags={tags}
+                    selectedId={selectedTagId}
+                    currentTime={currentTime}
+                    duration={videoDuration()}
+                    canUndo={tagHistory.past.length > 0}
+                    canRedo={tagHistory.future.length > 0}
+                    onSelect={setSelectedTagId}
+                    onBeginChange={beginTagChange}
+                    onUpdate={changeTag}
+                    onDelete={deleteTag}
+                    onUndo={() => updateTags(undoHistory)}
+                    onRedo={() => updateTags(redoHistory)}
+                    onImportDetections={() => addTags(detections.map(d => tagFromProduct(d, currentTime, videoDuration())))}
+                    onSeek={time => playerRef.current?.seek(time)}
+                  />
+                ) : resultProducts.length === 0 && !isProcessing ? (
                   <div className="h-full flex flex-col items-center justify-center py-10 text-slate-500">
                     <i className="fas fa-pause-circle text-4xl mb-3 block opacity-20"></i>
-                    <p className="text-center">Detection begins automatically when the video is paused.<br/>Find a frame with products and stop playback.</p>
+                    {liveScan ? (
+                      <p className="text-center">Live scan is on.<br/>Products will appear here as the video plays.</p>
+                    ) : (
+                      <p className="text-center">Detection begins automatically when the video is paused.<br/>Find a frame with products and stop playback.</p>
+                    )}
                   </div>
                 ) : isProcessing ? (
                   <div className="space-y-4 animate-pulse">
@@ -159,33 +988,92 @@ const App: React.FC = () => {
                   </div>
                 ) : (
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    {detections.map(product => (
-                      <a 
+                    {visibleResults.map(product => (
+                      <div
                         key={product.id}
-                        href={product.shoppingLink}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center gap-4 bg-slate-700/40 p-4 rounded-xl hover:bg-slate-700 hover:scale-[1.02] transition-all border border-transparent hover:border-blue-500/50 group"
+                        id={resultCardId(product.id)}
+                        className={`bg-slate-700/40 p-4 rounded-xl hover:bg-slate-700 hover:scale-[1.02] transition-all border hover:border-blue-500/50 group ${
+                          focusedProductId === product.id ? 'border-blue-400 bg-slate-700' : 'border-transparent'
+                        }`}
+                        onFocus={() => setFocusedProductId(product.id)}
+                        onBlur={e => {
+                          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFocusedProductId(null);
+                        }}
                       >
-                        <div className="bg-blue-600/20 w-12 h-12 rounded-lg flex items-center justify-center text-blue-400 group-hover:bg-blue-600/30">
-                          <i className={`fas ${
-                            product.category.toLowerCase().includes('fashion') ? 'fa-tshirt' : 
-                            product.category.toLowerCase().includes('electronics') ? 'fa-laptop' : 
-                            product.category.toLowerCase().includes('home') ? 'fa-couch' : 'fa-tag'
-                          }`}></i>
+                        <div className="flex items-center gap-2">
+                          <a 
+                            href={product.shoppingLink}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={() => trackOutboundClick(product, primaryRetailerId(product), product.shoppingLink, 'results')}
+                            className="flex items-center gap-4 flex-1 min-w-0 rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+                            aria-label={`Shop ${describeHotspot(product)}`}
+                          >
+                            <div className="bg-blue-600/20 w-12 h-12 rounded-lg flex items-center justify-center text-blue-400 group-hover:bg-blue-600/30">
+                              <i className={`fas ${
+                                product.category.toLowerCase().includes('fashion') ? 'fa-tshirt' : 
+                                product.category.toLowerCase().includes('electronics') ? 'fa-laptop' : 
+                                product.category.toLowerCase().includes('home') ? 'fa-couch' : 'fa-tag'
+                              }`}></i>
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <p className="font-semibold text-sm truncate">{product.name}</p>
+                              <p className="text-xs text-slate-400">
+                                <span className="capitalize">{product.category}</span>
+                                {product.screenTime > 0 && (
+                                  <span className="text-slate-500"> • on screen {Math.round(product.screenTime)}s</span>
+                                )}
+                              </p>
+                            </div>
+                            <div className="text-blue-500/50 group-hover:text-blue-500 transition-colors">
+                              <i className="fas fa-chevron-right"></i>
+                            </div>
+                          </a>
+                          <button
+                            onClick={() => toggleSaved(product)}
+                            className={`p-2 rounded-full transition-colors ${isSaved(product) ? 'text-pink-400' : 'text-slate-500 hover:text-pink-300'}`}
+                            aria-label={isSaved(product) ? `Remove ${product.name} from saved items` : `Save ${product.name}`}
+                            aria-pressed={isSaved(product)}
+                          >
+                            <i className={`${isSaved(product) ? 'fas' : 'far'} fa-heart`}></i>
+                          </button>
                         </div>
-                        <div className="flex-1 min-w-0">
-                          <p className="font-semibold text-sm truncate">{product.name}</p>
-                          <p className="text-xs text-slate-400 capitalize">{product.category}</p>
-                        </div>
-                        <div className="text-blue-500/50 group-hover:text-blue-500 transition-colors">
-                          <i className="fas fa-chevron-right"></i>
-                        </div>
-                      </a>
+                        {product.retailerLinks && product.retailerLinks.length > 1 && (
+                          <div className="flex flex-wrap gap-2 mt-3 pl-16">
+                            {product.retailerLinks.map(link => (
+                              <a
+                                key={link.retailerId}
+                                href={link.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                onClick={() => trackOutboundClick(product, link.retailerId, link.url, 'results')}
+                                className="text-[10px] font-semibold px-2 py-0.5 rounded-full bg-slate-800/80 text-slate-400 hover:text-blue-300 hover:bg-blue-600/20 transition-colors"
+                              >
+                                {link.label}
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                      </div>
                     ))}
                   </div>
                 )}
               </div>
+
+              {!editorMode && hotspotProducts.length > 0 && (
+                <p className="mt-4 text-[11px] text-slate-500 flex items-center gap-2">
+                  <i className="fas fa-keyboard"></i>
+                  Press <kbd className="px-1 rounded bg-slate-700 text-slate-300">]</kbd> / <kbd className="px-1 rounded bg-slate-700 text-slate-300">[</kbd> to step through the products on the video
+                </p>
+              )}
+
+              {liveScan && timeline.length > 0 && (
+                <p className="mt-4 text-[11px] text-slate-500 flex items-center gap-2">
+                  <i className="fas fa-stream"></i>
+                  {timeline.length} frame{timeline.length === 1 ? '' : 's'} scanned
+                  • last at {timeline[timeline.length - 1].timestamp.toFixed(1)}s
+                </p>
+              )}
             </div>
           </div>
 
@@ -210,12 +1098,141 @@ const App: React.FC = () => {
                     </span>
                   </div>
                 </label>
+                <form onSubmit={handleUrlSubmit} className="space-y-2">
+                  <textarea
+                    value={urlInput}
+                    onChange={e => setUrlInput(e.target.value)}
+                    rows={2}
+                    placeholder="Or paste video / stream URLs, one per line"
+                    className="w-full bg-slate-900/50 border border-slate-700 focus:border-blue-500/50 rounded-lg px-3 py-2 text-xs text-slate-300 placeholder-slate-600 outline-none resize-none"
+                  />
+                  <button
+                    type="submit"
+                    disabled={isProbing || !urlInput.trim()}
+                    className="w-full text-xs font-semibold py-2 rounded-lg bg-blue-600/20 border border-blue-500/30 text-blue-300 hover:bg-blue-600/30 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                    <i className={`fas ${isProbing ? 'fa-circle-notch fa-spin' : 'fa-link'}`}></i>
+                    {isProbing ? 'Checking Source…' : 'Load URL'}
+                  </button>
+                </form>
+                {playlist.length > 1 && (
+                  <ol className="space-y-1">
+                    {playlist.map((source, index) => (
+                      <li key={`${source.url}-${index}`}>
+                        <button
+                          onClick={() => playPlaylistItem(index)}
+                          className={`w-full text-left text-[11px] px-2 py-1.5 rounded-md flex items-center gap-2 transition-colors ${
+                            index === playlistIndex ? 'bg-blue-600/20 text-blue-300' : 'text-slate-400 hover:bg-slate-700/40'
+                          }`}
+                        >
+                          <span className="font-bold w-4">{index + 1}</span>
+                          <span className="flex-1 truncate">{source.url.split('/').pop() || source.url}</span>
+                          <span className="uppercase text-[9px] font-bold tracking-widest text-slate-500">{source.kind}</span>
+                          {!source.canCapture && (
+                            <i className="fas fa-eye-slash text-slate-500" title="Frame capture blocked by CORS"></i>
+                          )}
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
                 <div className="flex flex-col gap-1">
                   <p className="text-[10px] uppercase font-bold tracking-widest text-slate-600">Requirements</p>
                   <p className="text-[11px] text-slate-500">• Supported: MP4, WebM, OGG</p>
+                  <p className="text-[11px] text-slate-500">• URLs: MP4, WebM, HLS (.m3u8), DASH (.mpd)</p>
                   <p className="text-[11px] text-slate-500">• Max Size: {MAX_FILE_SIZE_MB}MB</p>
                   <p className="text-[11px] text-slate-500">• Resolution: 720p+ recommended</p>
                 </div>
+                {hasUploaded && canCapture && (
+                  <div className="space-y-2">
+                    {analysisProgress ? (
+                      <>
+                        <div className="flex items-center justify-between text-[11px] text-slate-400">
+                          <span>
+                            <i className="fas fa-circle-notch fa-spin mr-2 text-indigo-400"></i>
+                            Analyzing full video… {analysisProgress.analyzedFrames} frames
+                            {analysisProgress.failedFrames > 0 && (
+                              <span className="text-amber-400"> • {analysisProgress.failedFrames} failed</span>
+                            )}
+                          </span>
+                          <button
+                            onClick={cancelFullAnalysis}
+                            className="text-slate-500 hover:text-red-400 transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                        <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-indigo-500 transition-all"
+                            style={{
+                              width: `${analysisProgress.total ? (analysisProgress.completed / analysisProgress.total) * 100 : 0}%`,
+                            }}
+                          ></div>
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={startFullAnalysis}
+                          className="w-full text-xs font-semibold py-2 rounded-lg bg-indigo-600/20 border border-indigo-500/30 text-indigo-300 hover:bg-indigo-600/30 transition-colors flex items-center justify-center gap-2"
+                        >
+                          <i className="fas fa-film"></i>
+                          {productTimeline ? 'Re-analyze Full Video' : 'Analyze Full Video'}
+                        </button>
+                        <label className="flex items-center justify-between gap-2 text-[11px] text-slate-500">
+                          <span>Sample</span>
+                          <select
+                            value={samplingMode}
+                            onChange={e => setSamplingMode(e.target.value as SamplingMode)}
+                            className="bg-slate-900/60 border border-slate-700 rounded-md px-2 py-1 text-slate-300"
+                          >
+                            <option value="interval">Every {DEFAULT_INTERVAL_SECONDS} seconds</option>
+                            <option value="scenes">Each scene change</option>
+                          </select>
+                        </label>
+                      </>
+                    )}
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <p className="text-[10px] uppercase font-bold tracking-widest text-slate-600">Session</p>
+                  {importedSession && (
+                    <div className="flex items-center gap-2 text-[11px] bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2">
+                      <i className={`fas ${isSessionAttached ? 'fa-check-circle text-green-400' : 'fa-hourglass-half text-amber-400'}`}></i>
+                      <span className="flex-1 text-slate-400">
+                        {importedSession.frames.length} frames • {importedSession.provider.model || importedSession.provider.name}
+                        {!isSessionAttached && ' • waiting for its video'}
+                      </span>
+                      <button
+                        onClick={() => setImportedSession(null)}
+                        className="text-slate-500 hover:text-red-400 transition-colors"
+                        aria-label="Detach session"
+                      >
+                        <i className="fas fa-times"></i>
+                      </button>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-3 gap-2">
+                    <label className="text-[11px] font-semibold py-1.5 rounded-lg bg-slate-700/40 text-slate-300 hover:bg-slate-700 transition-colors text-center cursor-pointer">
+                      <input type="file" accept=".json,application/json" onChange={handleSessionImport} className="hidden" />
+                      <i className="fas fa-file-import mr-1"></i>Import
+                    </label>
+                    <button
+                      onClick={() => exportSession('json')}
+                      className="text-[11px] font-semibold py-1.5 rounded-lg bg-slate-700/40 text-slate-300 hover:bg-slate-700 transition-colors"
+                    >
+                      <i className="fas fa-file-export mr-1"></i>Export
+                    </button>
+                    <button
+                      onClick={() => exportSession('vtt')}
+                      className="text-[11px] font-semibold py-1.5 rounded-lg bg-slate-700/40 text-slate-300 hover:bg-slate-700 transition-colors"
+                      title="WebVTT metadata track for other players"
+                    >
+                      <i className="fas fa-closed-captioning mr-1"></i>VTT
+                    </button>
+                  </div>
+                </div>
                 {!hasUploaded && (
                   <div className="bg-blue-500/10 border border-blue-500/20 p-3 rounded-lg text-xs text-blue-400 flex gap-2">
                     <i className="fas fa-lightbulb"></i>
@@ -225,6 +1242,16 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            <WishlistPanel
+              items={savedItems}
+              onSeek={seekToSaved}
+              onRemove={removeSaved}
+              onExport={exportSaved}
+              onOutboundClick={item => trackOutboundClick(item.product, primaryRetailerId(item.product), item.product.shoppingLink, 'wishlist')}
+            />
+
+            <AnalyticsPanel sink={sessionSummary} />
+
             <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700/50 backdrop-blur-md">
               <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
                 <i className="fas fa-info-circle text-slate-400"></i>
@@ -249,6 +1276,27 @@ const App: React.FC = () => {
         </div>
       </main>
 
+      {selectedProduct && (
+        <ProductDetailPanel
+          product={selectedProduct}
+          thumbnail={selectedThumbnail}
+          description={description}
+          isDescribing={isDescribing}
+          canDescribe={!!detectionProvider.describe && !!selectedThumbnail}
+          onDescribe={describeSelectedProduct}
+          similar={similar}
+          isSearchingSimilar={isSearchingSimilar}
+          canFindSimilar={!!selectedThumbnail}
+          onFindSimilar={findSimilarProducts}
+          catalogLabel={catalogLabel}
+          onLoadCatalog={loadCatalogFeed}
+          onOutboundClick={(retailerId, url, surface) => trackOutboundClick(selectedProduct, retailerId, url, surface)}
+          isSaved={isSaved(selectedProduct)}
+          onToggleSave={() => toggleSaved(selectedProduct)}
+          onClose={closeProductDetails}
+        />
+      )}
+
       <footer className="mt-20 py-8 border-t border-slate-800/50 w-full max-w-5xl text-center flex flex-col items-center gap-2">
         <div className="flex gap-4 text-slate-500 mb-2">
           <i className="fab fa-react hover:text-blue-400 cursor-help transition-colors"></i>
@@ -0,0 +1,101 @@
+
+import React, { useSyncExternalStore } from 'react';
+import { SessionSummary, SessionSummarySink } from '../services/analyticsSinks';
+
+interface AnalyticsPanelProps {
+  sink: SessionSummarySink;
+}
+
+const MAX_PRODUCTS = 5;
+
+const formatLatency = (ms: number | null) =>
+  ms === null ? '–' : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const topEntries = (counts: Record<string, number>) =>
+  Object.entries(counts).sort(([, a], [, b]) => b - a);
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="bg-slate-900/40 rounded-lg p-2">
+    <p className="text-[10px] uppercase tracking-widest text-slate-500">{label}</p>
+    <p className="text-sm font-semibold font-mono text-slate-200">{value}</p>
+  </div>
+);
+
+const CountList: React.FC<{ title: string; counts: Record<string, number> }> = ({ title, counts }) => {
+  const entries = topEntries(counts);
+  if (entries.length === 0) return null;
+  return (
+    <div>
+      <p className="text-[10px] uppercase tracking-widest text-slate-500 mb-1">{title}</p>
+      <div className="flex flex-wrap gap-1">
+        {entries.map(([key, count]) => (
+          <span key={key} className="text-[11px] px-2 py-0.5 rounded-full bg-slate-700/50 text-slate-300 capitalize">
+            {key} <span className="font-mono text-slate-400">{count}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ sink }) => {
+  const summary: SessionSummary = useSyncExternalStore(sink.subscribe, sink.getSummary);
+  const errorCount = Object.values(summary.errorsByKind).reduce((sum, n) => sum + (n ?? 0), 0);
+  const clickCount = Object.values(summary.clicksByRetailer).reduce((sum, n) => sum + n, 0);
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700/50 backdrop-blur-md">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2 text-emerald-400">
+          <i className="fas fa-chart-line"></i>
+          This Session
+        </h3>
+        {(summary.analyses > 0 || summary.cacheHits > 0 || summary.products.length > 0 || errorCount > 0) && (
+          <button
+            onClick={sink.reset}
+            className="text-[10px] font-bold uppercase tracking-widest px-2 py-1 rounded-md bg-slate-700/50 text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        <Stat label="Analyses" value={summary.analyses} />
+        <Stat label="Cache hits" value={summary.cacheHits} />
+        <Stat label="Products" value={summary.productsDetected} />
+        <Stat label="Median latency" value={formatLatency(summary.medianLatencyMs)} />
+        <Stat label="Slowest" value={formatLatency(summary.maxLatencyMs)} />
+        <Stat label="Clicks" value={clickCount} />
+        <Stat label="Errors" value={errorCount} />
+      </div>
+
+      <div className="space-y-3">
+        <CountList title="Errors by kind" counts={summary.errorsByKind as Record<string, number>} />
+        <CountList title="Clicks by retailer" counts={summary.clicksByRetailer} />
+        <CountList title="Clicks by category" counts={summary.clicksByCategory} />
+
+        {summary.products.length > 0 ? (
+          <div>
+            <p className="text-[10px] uppercase tracking-widest text-slate-500 mb-1">Most engaged</p>
+            <ul className="space-y-1">
+              {summary.products.slice(0, MAX_PRODUCTS).map(product => (
+                <li key={product.productId} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="truncate text-slate-300">{product.name}</span>
+                  <span className="flex-shrink-0 font-mono text-[11px] text-slate-500">
+                    <i className="fas fa-hand-pointer mr-1"></i>{product.clicks}
+                    <i className="fas fa-eye ml-2 mr-1"></i>{product.hovers}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <p className="text-xs text-slate-500">Hover and click products to see engagement here.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
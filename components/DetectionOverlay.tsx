@@ -1,16 +1,82 @@
 
-import React from 'react';
+import React, { useImperativeHandle, useRef } from 'react';
 import { DetectedProduct } from '../types';
+import { ConfidenceTier, confidenceTier } from '../services/resultFilters';
+import { primaryRetailerId } from '../services/analytics';
+
+export interface DetectionOverlayHandle {
+  /** Moves keyboard focus to a product's hotspot. */
+  focusProduct: (id: string) => void;
+}
 
 interface DetectionOverlayProps {
   products: DetectedProduct[];
   isProcessing: boolean;
+  /** Product highlighted elsewhere (e.g. its card in the results list). */
+  focusedId?: string | null;
+  controlRef?: React.Ref<DetectionOverlayHandle>;
+  onSelect?: (product: DetectedProduct) => void;
+  onFocusProduct?: (product: DetectedProduct | null) => void;
+  onToggleSave?: (product: DetectedProduct) => void;
+  isSaved?: (product: DetectedProduct) => boolean;
+  /** Fires when the pointer leaves a box it rested on for at least MIN_HOVER_MS. */
+  onHover?: (product: DetectedProduct, dwellMs: number) => void;
+  /** Called before a retailer link opens, e.g. to record the click. */
+  onOutboundClick?: (product: DetectedProduct, retailerId: string, url: string) => void;
 }
 
-const DetectionOverlay: React.FC<DetectionOverlayProps> = ({ products, isProcessing }) => {
+// Shorter passes are the pointer crossing the video, not interest
+const MIN_HOVER_MS = 300;
+
+// Weaker detections get fainter, thinner outlines so strong matches stand out
+const TIER_STYLES: Record<ConfidenceTier, string> = {
+  high: 'opacity-100',
+  medium: 'opacity-80',
+  low: 'opacity-60 border-dotted',
+};
+
+export const describeHotspot = (product: DetectedProduct) =>
+  `${product.name}, ${product.category}, ${Math.round(product.confidence * 100)}% confidence`;
+
+const DetectionOverlay: React.FC<DetectionOverlayProps> = ({
+  products,
+  isProcessing,
+  focusedId,
+  controlRef,
+  onSelect,
+  onFocusProduct,
+  onToggleSave,
+  isSaved,
+  onHover,
+  onOutboundClick,
+}) => {
+  const hotspotRefs = useRef(new Map<string, HTMLButtonElement>());
+  const hoverStarts = useRef(new Map<string, number>());
+
+  useImperativeHandle(controlRef, () => ({
+    focusProduct: (id) => hotspotRefs.current.get(id)?.focus(),
+  }), []);
+
+  const activate = (product: DetectedProduct) => {
+    if (onSelect) {
+      onSelect(product);
+      return;
+    }
+    onOutboundClick?.(product, primaryRetailerId(product), product.shoppingLink);
+    window.open(product.shoppingLink, '_blank', 'noopener');
+  };
+
+  const endHover = (product: DetectedProduct) => {
+    const startedAt = hoverStarts.current.get(product.id);
+    hoverStarts.current.delete(product.id);
+    if (startedAt === undefined) return;
+    const dwellMs = Math.round(performance.now() - startedAt);
+    if (dwellMs >= MIN_HOVER_MS) onHover?.(product, dwellMs);
+  };
+
   if (isProcessing) {
     return (
-      <div className="absolute inset-0 z-10 flex flex-col items-center justify-center bg-black/40 backdrop-blur-[2px] pointer-events-none">
+      <div className="absolute inset-0 z-10 flex flex-col items-center justify-center bg-black/40 backdrop-blur-[2px] pointer-events-none" aria-hidden="true">
         <div className="flex space-x-2 mb-4">
           <div className="w-3 h-3 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '0s' }}></div>
           <div className="w-3 h-3 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
@@ -24,27 +90,87 @@ const DetectionOverlay: React.FC<DetectionOverlayProps> = ({ products, isProcess
   if (products.length === 0) return null;
 
   return (
-    <div className="absolute inset-0 z-10 pointer-events-none">
+    <div className="absolute inset-0 z-10 pointer-events-none" role="group" aria-label="Detected products">
       {products.map((product) => (
-        <React.Fragment key={product.id}>
+        // The save button and retailer links sit beside the hotspot button, not inside it
+        <div
+          key={product.id}
+          className="absolute group pointer-events-auto"
+          style={{
+            top: `${product.box.ymin / 10}%`,
+            left: `${product.box.xmin / 10}%`,
+            width: `${(product.box.xmax - product.box.xmin) / 10}%`,
+            height: `${(product.box.ymax - product.box.ymin) / 10}%`,
+          }}
+          onPointerEnter={() => hoverStarts.current.set(product.id, performance.now())}
+          onPointerLeave={() => endHover(product)}
+          onBlur={e => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) onFocusProduct?.(null);
+          }}
+        >
           {/* Bounding Box */}
-          <div
-            className="absolute border-2 border-blue-400 rounded-sm bg-blue-400/10 shadow-[0_0_15px_rgba(96,165,250,0.5)] transition-all hover:border-white group pointer-events-auto cursor-pointer"
-            style={{
-              top: `${product.box.ymin / 10}%`,
-              left: `${product.box.xmin / 10}%`,
-              width: `${(product.box.xmax - product.box.xmin) / 10}%`,
-              height: `${(product.box.ymax - product.box.ymin) / 10}%`,
+          <button
+            ref={el => {
+              if (el) hotspotRefs.current.set(product.id, el);
+              else hotspotRefs.current.delete(product.id);
             }}
-            onClick={() => window.open(product.shoppingLink, '_blank')}
+            type="button"
+            aria-label={describeHotspot(product)}
+            className={`absolute inset-0 w-full h-full border-2 rounded-sm transition-all group-hover:border-white focus:border-white focus:outline-none focus-visible:ring-2 focus-visible:ring-white cursor-pointer ${
+              product.origin === 'user'
+                ? 'border-dashed border-amber-400 bg-amber-400/10 shadow-[0_0_15px_rgba(251,191,36,0.5)]'
+                : 'border-blue-400 bg-blue-400/10 shadow-[0_0_15px_rgba(96,165,250,0.5)]'
+            } ${product.origin === 'user' ? '' : TIER_STYLES[confidenceTier(product.confidence)]} ${
+              focusedId === product.id ? 'border-white ring-2 ring-white/70 opacity-100' : ''
+            }`}
+            onClick={() => activate(product)}
+            onFocus={() => onFocusProduct?.(product)}
           >
-            {/* Tooltip on Box */}
-            <div className="absolute -top-10 left-0 bg-blue-600 text-white text-xs px-2 py-1 rounded-md whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-2">
-              <i className="fas fa-shopping-cart"></i>
+            {product.origin !== 'user' && (
+              <span
+                className="absolute top-0 right-0 bg-black/60 text-white text-[9px] font-mono leading-none px-1 py-0.5 rounded-bl-sm pointer-events-none"
+                aria-hidden="true"
+              >
+                {Math.round(product.confidence * 100)}%
+              </span>
+            )}
+          </button>
+          {/* Tooltip on Box; padded so the pointer can travel onto the links */}
+          <div className={`absolute bottom-full left-0 pb-2 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100 ${
+            focusedId === product.id ? 'opacity-100' : 'opacity-0'
+          }`}>
+            <div className={`${product.origin === 'user' ? 'bg-amber-600' : 'bg-blue-600'} text-white text-xs px-2 py-1 rounded-md whitespace-nowrap flex items-center gap-2`}>
+              <i className={`fas ${product.origin === 'user' ? 'fa-crosshairs' : 'fa-shopping-cart'}`}></i>
               {product.name}
+              {onToggleSave && (
+                <button
+                  type="button"
+                  onClick={() => onToggleSave(product)}
+                  className="hover:text-pink-200 transition-colors"
+                  aria-label={isSaved?.(product) ? `Remove ${product.name} from saved items` : `Save ${product.name}`}
+                >
+                  <i className={`${isSaved?.(product) ? 'fas' : 'far'} fa-heart`}></i>
+                </button>
+              )}
+              {product.retailerLinks && product.retailerLinks.length > 1 && (
+                <span className="flex items-center gap-1 pl-2 border-l border-blue-400/50">
+                  {product.retailerLinks.map(link => (
+                    <a
+                      key={link.retailerId}
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={() => onOutboundClick?.(product, link.retailerId, link.url)}
+                      className="px-1.5 py-0.5 rounded bg-blue-700/60 hover:bg-blue-800 text-[10px] font-semibold"
+                    >
+                      {link.label}
+                    </a>
+                  ))}
+                </span>
+              )}
             </div>
           </div>
-        </React.Fragment>
+        </div>
       ))}
     </div>
   );
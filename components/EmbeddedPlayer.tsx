@@ -0,0 +1,76 @@
+
+import React, { useState } from 'react';
+import { DetectedProduct, DetectionProvider } from '../types';
+import { DetectionErrorKind } from '../services/detectionErrors';
+import { RetailerRegistry, attachRetailerLinks } from '../services/retailerRegistry';
+import VideoPlayer from './VideoPlayer';
+import DetectionOverlay from './DetectionOverlay';
+
+interface EmbeddedPlayerProps {
+  src: string;
+  provider: DetectionProvider;
+  /** Overrides the retailer links the provider attached. */
+  registry?: RetailerRegistry;
+  liveScan?: boolean;
+  onDetected?: (products: DetectedProduct[], timestamp: number) => void;
+  /** Return false to keep the default shopping link from opening. */
+  onProductClick?: (product: DetectedProduct) => boolean;
+  onError?: (message: string, kind?: DetectionErrorKind) => void;
+}
+
+/** Player plus overlay without any of the app chrome, for the custom element. */
+const EmbeddedPlayer: React.FC<EmbeddedPlayerProps> = ({
+  src,
+  provider,
+  registry,
+  liveScan = false,
+  onDetected,
+  onProductClick,
+  onError,
+}) => {
+  const [products, setProducts] = useState<DetectedProduct[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDetections = (detections: DetectedProduct[], timestamp?: number) => {
+    const linked = registry ? detections.map(p => attachRetailerLinks(p, registry)) : detections;
+    setProducts(linked);
+    if (timestamp !== undefined) onDetected?.(linked, timestamp);
+  };
+
+  const handleError = (message: string | null, kind?: DetectionErrorKind) => {
+    setError(message);
+    if (message) onError?.(message, kind);
+  };
+
+  const handleSelect = (product: DetectedProduct) => {
+    if (onProductClick?.(product) === false || !product.shoppingLink) return;
+    window.open(product.shoppingLink, '_blank', 'noopener');
+  };
+
+  return (
+    <div className="relative">
+      <VideoPlayer
+        src={src}
+        provider={provider}
+        liveScan={liveScan}
+        onDetections={handleDetections}
+        onProcessing={setIsProcessing}
+        onError={handleError}
+      >
+        <DetectionOverlay products={products} isProcessing={isProcessing} onSelect={handleSelect} />
+      </VideoPlayer>
+      {error && (
+        <div className="absolute bottom-14 left-3 right-3 z-20 flex items-center gap-2 bg-red-900/80 text-red-100 text-xs px-3 py-2 rounded-lg">
+          <i className="fas fa-exclamation-circle"></i>
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} aria-label="Dismiss error">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmbeddedPlayer;
@@ -0,0 +1,136 @@
+
+import React from 'react';
+import { DetectionErrorKind } from '../services/detectionErrors';
+
+export interface BannerError {
+  message: string;
+  /** Unset for app-level warnings such as a rejected upload. */
+  kind?: DetectionErrorKind;
+  retry?: () => void;
+}
+
+interface ErrorBannerProps {
+  error: BannerError;
+  onDismiss: () => void;
+}
+
+interface KindPresentation {
+  title: string;
+  hint?: string;
+  icon: string;
+  /** Whether the failed request can sensibly be sent again as-is. */
+  retryable?: boolean;
+  link?: { label: string; href: string };
+}
+
+const API_KEY_URL = 'https://aistudio.google.com/apikey';
+
+const PRESENTATION: Record<DetectionErrorKind, KindPresentation> = {
+  auth: {
+    title: 'API Key Problem',
+    hint: 'Set a valid GEMINI_API_KEY for the detection server and restart it.',
+    icon: 'fa-key',
+    link: { label: 'Check key', href: API_KEY_URL },
+  },
+  quota: {
+    title: 'Rate Limited',
+    hint: 'The request quota is used up for now. Wait a moment before retrying.',
+    icon: 'fa-hourglass-half',
+    retryable: true,
+  },
+  network: {
+    title: 'Connection Problem',
+    hint: 'Check your internet connection.',
+    icon: 'fa-wifi',
+    retryable: true,
+  },
+  timeout: {
+    title: 'Request Timed Out',
+    icon: 'fa-clock',
+    retryable: true,
+  },
+  safety: {
+    title: 'Frame Blocked',
+    hint: 'Try pausing on a different frame.',
+    icon: 'fa-shield-alt',
+  },
+  'invalid-json': {
+    title: 'Unexpected Response',
+    icon: 'fa-code',
+    retryable: true,
+  },
+  cors: {
+    title: 'Capture Blocked',
+    hint: 'Download the video and upload the file instead.',
+    icon: 'fa-lock',
+  },
+  unavailable: {
+    title: 'Detection Paused',
+    hint: 'Requests are paused after repeated failures and resume automatically.',
+    icon: 'fa-pause-circle',
+    retryable: true,
+  },
+  unknown: {
+    title: 'Something Went Wrong',
+    icon: 'fa-exclamation-triangle',
+    retryable: true,
+  },
+};
+
+const WARNING: KindPresentation = { title: 'Warning', icon: 'fa-exclamation-triangle' };
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onDismiss }) => {
+  const presentation = error.kind ? PRESENTATION[error.kind] : WARNING;
+  const canRetry = presentation.retryable && !!error.retry;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-full max-w-md animate-bounce-short" role="alert">
+      <div className="bg-red-500 text-white px-6 py-4 rounded-xl shadow-2xl flex items-center gap-4 border border-red-400">
+        <i className={`fas ${presentation.icon} text-2xl`}></i>
+        <div className="flex-1">
+          <p className="font-bold text-sm uppercase tracking-tight">{presentation.title}</p>
+          <p className="text-xs font-medium leading-tight opacity-95">{error.message}</p>
+          {presentation.hint && (
+            <p className="text-[11px] leading-tight opacity-80 mt-1">{presentation.hint}</p>
+          )}
+          {(canRetry || presentation.link) && (
+            <div className="flex gap-2 mt-2">
+              {canRetry && (
+                <button
+                  onClick={() => {
+                    onDismiss();
+                    error.retry?.();
+                  }}
+                  className="text-[11px] font-bold uppercase tracking-wide bg-white/20 hover:bg-white/30 px-3 py-1 rounded-full transition-colors"
+                >
+                  <i className="fas fa-redo mr-1"></i>
+                  Retry
+                </button>
+              )}
+              {presentation.link && (
+                <a
+                  href={presentation.link.href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-[11px] font-bold uppercase tracking-wide bg-white/20 hover:bg-white/30 px-3 py-1 rounded-full transition-colors"
+                >
+                  <i className="fas fa-external-link-alt mr-1"></i>
+                  {presentation.link.label}
+                </a>
+              )}
+            </div>
+          )}
+        </div>
+        <button
+          onClick={onDismiss}
+          className="hover:bg-red-600/80 p-2 rounded-full transition-colors flex items-center justify-center"
+          aria-label="Close error"
+        >
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorBanner;
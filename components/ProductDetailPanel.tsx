@@ -0,0 +1,241 @@
+import React, { useRef } from 'react';
+import { DetectedProduct, ProductAttributes, ProductDescription, SimilarProduct } from '../types';
+import { ClickSurface } from '../services/analytics';
+
+interface ProductDetailPanelProps {
+  product: DetectedProduct;
+  thumbnail: string | null;
+  description: ProductDescription | null;
+  isDescribing: boolean;
+  canDescribe: boolean;
+  onDescribe: () => void;
+  /** Null until a search was run for this product. */
+  similar: SimilarProduct[] | null;
+  isSearchingSimilar: boolean;
+  canFindSimilar: boolean;
+  onFindSimilar: () => void;
+  /** e.g. "120 products from feed.csv"; null until a product feed is loaded. */
+  catalogLabel: string | null;
+  onLoadCatalog: (file: File) => void;
+  onOutboundClick?: (retailerId: string, url: string, surface: ClickSurface) => void;
+  isSaved: boolean;
+  onToggleSave: () => void;
+  onClose: () => void;
+}
+
+// Intl throws on codes it doesn't know; fall back to the bare amount
+const formatMoney = (amount: number, currency: string, options: Intl.NumberFormatOptions = {}) => {
+  try {
+    return new Intl.NumberFormat(undefined, { ...options, style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+};
+
+const formatPrice = ({ priceRange }: ProductAttributes) => {
+  if (!priceRange) return null;
+  const fmt = (n: number) => formatMoney(n, priceRange.currency, { maximumFractionDigits: 0 });
+  return priceRange.min === priceRange.max ? fmt(priceRange.min) : `${fmt(priceRange.min)} – ${fmt(priceRange.max)}`;
+};
+
+const formatCatalogPrice = ({ product }: SimilarProduct) => {
+  if (product.price === undefined) return null;
+  return formatMoney(product.price, product.currency || 'USD');
+};
+
+const ProductDetailPanel: React.FC<ProductDetailPanelProps> = ({
+  product,
+  thumbnail,
+  description,
+  isDescribing,
+  canDescribe,
+  onDescribe,
+  similar,
+  isSearchingSimilar,
+  canFindSimilar,
+  onFindSimilar,
+  catalogLabel,
+  onLoadCatalog,
+  onOutboundClick,
+  isSaved,
+  onToggleSave,
+  onClose,
+}) => {
+  // The follow-up identification refines whatever the frame pass found
+  const attributes: ProductAttributes = { ...product.attributes, ...description };
+  const name = description?.name || product.name;
+  const price = formatPrice(attributes);
+  const feedInputRef = useRef<HTMLInputElement>(null);
+  const hasMatches = !!similar && similar.length > 0;
+
+  const rows: [string, string | undefined][] = [
+    ['Brand', attributes.brand],
+    ['Color', attributes.color],
+    ['Material', attributes.material],
+    ['Price', price || undefined],
+  ];
+
+  return (
+    <aside className="fixed top-0 right-0 z-40 h-full w-full max-w-sm bg-slate-900/95 border-l border-slate-700/50 backdrop-blur-md shadow-2xl flex flex-col">
+      <div className="flex items-center justify-between p-6 border-b border-slate-800">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <i className="fas fa-tag text-blue-500"></i>
+          Product Details
+        </h3>
+        <button
+          onClick={onClose}
+          className="hover:bg-slate-800 p-2 rounded-full transition-colors flex items-center justify-center text-slate-400"
+          aria-label="Close details"
+        >
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-5">
+        {thumbnail && (
+          <img
+            src={`data:image/jpeg;base64,${thumbnail}`}
+            alt={name}
+            className="w-full max-h-56 object-contain rounded-xl bg-black border border-slate-800"
+          />
+        )}
+
+        <div>
+          <p className="font-bold text-xl leading-tight">{name}</p>
+          <p className="text-xs text-slate-400 capitalize mt-1">
+            {product.category} • {Math.round(product.confidence * 100)}% confidence
+          </p>
+        </div>
+
+        {description?.description && (
+          <p className="text-sm text-slate-300 leading-relaxed">{description.description}</p>
+        )}
+
+        <dl className="grid grid-cols-2 gap-3">
+          {rows.filter(([, value]) => value).map(([label, value]) => (
+            <div key={label} className="bg-slate-800/60 rounded-lg p-3">
+              <dt className="text-[10px] uppercase font-bold tracking-widest text-slate-500">{label}</dt>
+              <dd className="text-sm font-medium mt-1">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {attributes.styleKeywords && attributes.styleKeywords.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {attributes.styleKeywords.map(keyword => (
+              <span key={keyword} className="text-[11px] px-2 py-0.5 rounded-full bg-indigo-500/15 text-indigo-300">
+                {keyword}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {canDescribe && !description && (
+          <button
+            onClick={onDescribe}
+            disabled={isDescribing}
+            className="w-full text-xs font-semibold py-2 rounded-lg bg-indigo-600/20 border border-indigo-500/30 text-indigo-300 hover:bg-indigo-600/30 transition-colors flex items-center justify-center gap-2 disabled:opacity-60"
+          >
+            <i className={`fas ${isDescribing ? 'fa-circle-notch fa-spin' : 'fa-magic'}`}></i>
+            {isDescribing ? 'Identifying…' : 'Describe This Item'}
+          </button>
+        )}
+
+        {canFindSimilar && (
+          <section className="space-y-3">
+            <button
+              onClick={onFindSimilar}
+              disabled={isSearchingSimilar || !catalogLabel}
+              className="w-full text-xs font-semibold py-2 rounded-lg bg-teal-600/20 border border-teal-500/30 text-teal-300 hover:bg-teal-600/30 transition-colors flex items-center justify-center gap-2 disabled:opacity-60"
+            >
+              <i className={`fas ${isSearchingSimilar ? 'fa-circle-notch fa-spin' : 'fa-images'}`}></i>
+              {isSearchingSimilar ? 'Searching catalog…' : 'Find Visually Similar'}
+            </button>
+            <p className="text-[11px] text-slate-500 flex items-center justify-between gap-2">
+              <span>{catalogLabel ? `Catalog: ${catalogLabel}` : 'Load a product feed to search your catalog.'}</span>
+              <button onClick={() => feedInputRef.current?.click()} className="text-teal-400 hover:text-teal-300 flex-shrink-0">
+                {catalogLabel ? 'Replace feed…' : 'Load feed…'}
+              </button>
+              <input
+                ref={feedInputRef}
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) onLoadCatalog(file);
+                  e.target.value = '';
+                }}
+              />
+            </p>
+
+            {similar && similar.length === 0 && (
+              <p className="text-xs text-slate-400">No close matches in the catalog.</p>
+            )}
+            {hasMatches && (
+              <ul className="space-y-2" aria-label="Visually similar products">
+                {similar.map(match => (
+                  <li key={match.product.id}>
+                    <a
+                      href={match.product.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={() => onOutboundClick?.('catalog', match.product.url, 'similar')}
+                      className="flex items-center gap-3 bg-slate-800/60 hover:bg-slate-800 rounded-lg p-2 transition-colors"
+                    >
+                      <img
+                        src={match.product.imageUrl}
+                        alt=""
+                        className="w-12 h-12 rounded-md object-cover bg-white flex-shrink-0"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{match.product.title}</p>
+                        <p className="text-[11px] text-slate-400 truncate">
+                          {[match.product.brand, formatCatalogPrice(match)].filter(Boolean).join(' • ')}
+                        </p>
+                      </div>
+                      <span className="text-[10px] font-mono text-teal-300">{Math.round(match.score * 100)}%</span>
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+      </div>
+
+      <div className="p-6 border-t border-slate-800 space-y-2">
+        <button
+          onClick={onToggleSave}
+          className={`w-full flex items-center justify-center gap-2 text-sm font-semibold px-4 py-2.5 rounded-lg border transition-colors ${
+            isSaved
+              ? 'bg-pink-500/20 border-pink-500/40 text-pink-300'
+              : 'border-slate-700 text-slate-300 hover:border-pink-500/40 hover:text-pink-300'
+          }`}
+        >
+          <i className={`${isSaved ? 'fas' : 'far'} fa-heart`}></i>
+          {isSaved ? 'Saved' : 'Save Item'}
+        </button>
+        {/* Catalog matches above replace the generic keyword searches */}
+        {!hasMatches && (product.retailerLinks && product.retailerLinks.length > 0
+          ? product.retailerLinks
+          : [{ retailerId: 'search', label: 'the web', url: product.shoppingLink }]
+        ).map(link => (
+          <a
+            key={link.retailerId}
+            href={link.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={() => onOutboundClick?.(link.retailerId, link.url, 'panel')}
+            className="flex items-center justify-between bg-blue-600 hover:bg-blue-500 text-white text-sm font-semibold px-4 py-2.5 rounded-lg transition-colors"
+          >
+            <span>Shop on {link.label}</span>
+            <i className="fas fa-external-link-alt text-xs"></i>
+          </a>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default ProductDetailPanel;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ProductTimeline as ProductTimelineData } from '../types';
+import { formatTime } from '../services/timeFormat';
+
+interface ProductTimelineProps {
+  timeline: ProductTimelineData;
+  onSeek: (time: number) => void;
+}
+
+const ProductTimeline: React.FC<ProductTimelineProps> = ({ timeline, onSeek }) => {
+  const { duration, appearances } = timeline;
+  if (duration <= 0) return null;
+
+  return (
+    <div className="max-w-4xl mx-auto mt-3">
+      <div className="flex items-center justify-between mb-1 text-[10px] uppercase font-bold tracking-widest text-slate-500">
+        <span>Product Timeline</span>
+        <span>{appearances.length} appearance{appearances.length === 1 ? '' : 's'}</span>
+      </div>
+      <div className="relative h-3 bg-slate-800 rounded-full overflow-hidden border border-slate-700/50">
+        {appearances.map(appearance => (
+          <button
+            key={`${appearance.key}-${appearance.start}`}
+            onClick={() => onSeek(appearance.start)}
+            title={`${appearance.product.name} (${formatTime(appearance.start)}–${formatTime(appearance.end)})`}
+            aria-label={`Jump to ${appearance.product.name} at ${formatTime(appearance.start)}`}
+            className="absolute top-0 h-full bg-blue-500/60 hover:bg-blue-400 border-x border-slate-900/60 transition-colors"
+            style={{
+              left: `${(appearance.start / duration) * 100}%`,
+              width: `${Math.max(0.5, ((appearance.end - appearance.start) / duration) * 100)}%`,
+            }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProductTimeline;
@@ -0,0 +1,106 @@
+import React, { useRef, useState } from 'react';
+import { BoundingBox } from '../types';
+
+interface RegionSelectorProps {
+  onSelect: (region: BoundingBox) => void;
+  onCancel: () => void;
+}
+
+// Drags shorter than this (0-1000 units) count as a click on a point
+const MIN_DRAG_SIZE = 15;
+// Size of the square selected around a clicked point
+const POINT_REGION_SIZE = 160;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const clamp = (v: number) => Math.min(1000, Math.max(0, v));
+
+const toBox = (a: Point, b: Point): BoundingBox => ({
+  ymin: Math.min(a.y, b.y),
+  xmin: Math.min(a.x, b.x),
+  ymax: Math.max(a.y, b.y),
+  xmax: Math.max(a.x, b.x),
+});
+
+const aroundPoint = (p: Point): BoundingBox => {
+  const half = POINT_REGION_SIZE / 2;
+  return {
+    ymin: clamp(p.y - half),
+    xmin: clamp(p.x - half),
+    ymax: clamp(p.y + half),
+    xmax: clamp(p.x + half),
+  };
+};
+
+const RegionSelector: React.FC<RegionSelectorProps> = ({ onSelect, onCancel }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [start, setStart] = useState<Point | null>(null);
+  const [current, setCurrent] = useState<Point | null>(null);
+
+  const toPoint = (e: React.PointerEvent): Point => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 1000),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 1000),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toPoint(e);
+    setStart(point);
+    setCurrent(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (start) setCurrent(toPoint(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!start) return;
+    const end = toPoint(e);
+    const box = toBox(start, end);
+    setStart(null);
+    setCurrent(null);
+
+    const isClick = box.xmax - box.xmin < MIN_DRAG_SIZE && box.ymax - box.ymin < MIN_DRAG_SIZE;
+    onSelect(isClick ? aroundPoint(end) : box);
+  };
+
+  const preview = start && current ? toBox(start, current) : null;
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 z-30 cursor-crosshair bg-black/20 touch-none pointer-events-auto"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onKeyDown={e => e.key === 'Escape' && onCancel()}
+      tabIndex={0}
+      role="application"
+      aria-label="Drag a rectangle or click a point to identify an item"
+    >
+      <div className="absolute top-3 left-1/2 -translate-x-1/2 bg-amber-500 text-slate-900 text-xs font-semibold px-3 py-1.5 rounded-full flex items-center gap-2 pointer-events-none">
+        <i className="fas fa-crosshairs"></i>
+        Drag around an item or click on it
+      </div>
+      {preview && (
+        <div
+          className="absolute border-2 border-dashed border-amber-400 bg-amber-400/10 pointer-events-none"
+          style={{
+            top: `${preview.ymin / 10}%`,
+            left: `${preview.xmin / 10}%`,
+            width: `${(preview.xmax - preview.xmin) / 10}%`,
+            height: `${(preview.ymax - preview.ymin) / 10}%`,
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default RegionSelector;
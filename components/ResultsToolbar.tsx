@@ -0,0 +1,88 @@
+
+import React from 'react';
+import { ResultPreferences, ResultSort } from '../services/resultFilters';
+
+interface ResultsToolbarProps {
+  preferences: ResultPreferences;
+  /** Categories present in the current detections. */
+  categories: string[];
+  hiddenCount: number;
+  onChange: (preferences: ResultPreferences) => void;
+}
+
+const SORT_LABELS: Record<ResultSort, string> = {
+  confidence: 'Confidence',
+  size: 'Size on screen',
+  name: 'Name',
+};
+
+const ResultsToolbar: React.FC<ResultsToolbarProps> = ({ preferences, categories, hiddenCount, onChange }) => {
+  const update = (patch: Partial<ResultPreferences>) => onChange({ ...preferences, ...patch });
+
+  const toggleCategory = (category: string) => {
+    const hidden = preferences.hiddenCategories.includes(category)
+      ? preferences.hiddenCategories.filter(c => c !== category)
+      : [...preferences.hiddenCategories, category];
+    update({ hiddenCategories: hidden });
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+        <label className="flex items-center gap-2 flex-1 min-w-[180px]">
+          <span className="whitespace-nowrap">Min confidence</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(preferences.minConfidence * 100)}
+            onChange={e => update({ minConfidence: Number(e.target.value) / 100 })}
+            className="flex-1 accent-blue-500"
+            aria-valuetext={`${Math.round(preferences.minConfidence * 100)} percent`}
+          />
+          <span className="w-9 text-right font-mono text-slate-300">{Math.round(preferences.minConfidence * 100)}%</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <span>Sort by</span>
+          <select
+            value={preferences.sortBy}
+            onChange={e => update({ sortBy: e.target.value as ResultSort })}
+            className="bg-slate-900/60 border border-slate-700 rounded-md px-2 py-1 text-slate-200"
+          >
+            {(Object.keys(SORT_LABELS) as ResultSort[]).map(sort => (
+              <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {categories.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Filter by category">
+          {categories.map(category => {
+            const shown = !preferences.hiddenCategories.includes(category);
+            return (
+              <button
+                key={category}
+                onClick={() => toggleCategory(category)}
+                aria-pressed={shown}
+                className={`text-[11px] font-semibold capitalize px-2.5 py-1 rounded-full border transition-colors ${
+                  shown
+                    ? 'bg-blue-600/20 border-blue-500/50 text-blue-300'
+                    : 'bg-slate-800/60 border-slate-700 text-slate-500 line-through'
+                }`}
+              >
+                {category}
+              </button>
+            );
+          })}
+          {hiddenCount > 0 && (
+            <span className="text-[11px] text-slate-500">{hiddenCount} hidden by filters</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResultsToolbar;
@@ -0,0 +1,162 @@
+import React, { useRef, useState } from 'react';
+import { BoundingBox, CuratedTag } from '../types';
+
+interface TagEditorOverlayProps {
+  tags: CuratedTag[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  /** Called once before a drag so the whole gesture, if it moves the box, is a single undo step. */
+  onBeginChange: () => void;
+  onChangeBox: (id: string, box: BoundingBox) => void;
+  onCreate: (box: BoundingBox) => void;
+}
+
+type Handle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  id: string | null;
+  handle: Handle | 'create';
+  origin: { x: number; y: number };
+  box: BoundingBox;
+}
+
+// Drawn boxes smaller than this (0-1000 units) are treated as stray clicks
+const MIN_BOX_SIZE = 15;
+
+const clamp = (v: number) => Math.min(1000, Math.max(0, v));
+
+const normalize = (box: BoundingBox): BoundingBox => ({
+  ymin: Math.min(box.ymin, box.ymax),
+  xmin: Math.min(box.xmin, box.xmax),
+  ymax: Math.max(box.ymin, box.ymax),
+  xmax: Math.max(box.xmin, box.xmax),
+});
+
+const applyDrag = (drag: DragState, dx: number, dy: number): BoundingBox => {
+  const b = drag.box;
+  switch (drag.handle) {
+    case 'move': {
+      // Keep the box size while clamping it inside the frame
+      const w = b.xmax - b.xmin;
+      const h = b.ymax - b.ymin;
+      const xmin = Math.min(1000 - w, Math.max(0, b.xmin + dx));
+      const ymin = Math.min(1000 - h, Math.max(0, b.ymin + dy));
+      return { xmin, ymin, xmax: xmin + w, ymax: ymin + h };
+    }
+    case 'nw': return normalize({ ...b, xmin: clamp(b.xmin + dx), ymin: clamp(b.ymin + dy) });
+    case 'ne': return normalize({ ...b, xmax: clamp(b.xmax + dx), ymin: clamp(b.ymin + dy) });
+    case 'sw': return normalize({ ...b, xmin: clamp(b.xmin + dx), ymax: clamp(b.ymax + dy) });
+    case 'se':
+    case 'create':
+      return normalize({ ...b, xmax: clamp(b.xmax + dx), ymax: clamp(b.ymax + dy) });
+  }
+};
+
+const HANDLE_POSITIONS: Record<Exclude<Handle, 'move'>, string> = {
+  nw: '-top-1.5 -left-1.5 cursor-nwse-resize',
+  ne: '-top-1.5 -right-1.5 cursor-nesw-resize',
+  sw: '-bottom-1.5 -left-1.5 cursor-nesw-resize',
+  se: '-bottom-1.5 -right-1.5 cursor-nwse-resize',
+};
+
+const TagEditorOverlay: React.FC<TagEditorOverlayProps> = ({
+  tags,
+  selectedId,
+  onSelect,
+  onBeginChange,
+  onChangeBox,
+  onCreate,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 1000),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 1000),
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, tag: CuratedTag, handle: Handle) => {
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    onSelect(tag.id);
+    onBeginChange();
+    setDrag({ id: tag.id, handle, origin: toPoint(e), box: tag.box });
+  };
+
+  const startCreate = (e: React.PointerEvent) => {
+    containerRef.current?.setPointerCapture(e.pointerId);
+    const origin = toPoint(e);
+    const box = { ymin: origin.y, xmin: origin.x, ymax: origin.y, xmax: origin.x };
+    onSelect(null);
+    setDrag({ id: null, handle: 'create', origin, box });
+    setDraft(box);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const point = toPoint(e);
+    const box = applyDrag(drag, point.x - drag.origin.x, point.y - drag.origin.y);
+    if (drag.id) onChangeBox(drag.id, box);
+    else setDraft(box);
+  };
+
+  const handlePointerUp = () => {
+    if (drag?.handle === 'create' && draft
+      && draft.xmax - draft.xmin >= MIN_BOX_SIZE && draft.ymax - draft.ymin >= MIN_BOX_SIZE) {
+      onCreate(draft);
+    }
+    setDrag(null);
+    setDraft(null);
+  };
+
+  const style = (box: BoundingBox) => ({
+    top: `${box.ymin / 10}%`,
+    left: `${box.xmin / 10}%`,
+    width: `${(box.xmax - box.xmin) / 10}%`,
+    height: `${(box.ymax - box.ymin) / 10}%`,
+  });
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 z-30 cursor-crosshair touch-none pointer-events-auto"
+      onPointerDown={startCreate}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {tags.map(tag => {
+        const selected = tag.id === selectedId;
+        return (
+          <div
+            key={tag.id}
+            className={`absolute border-2 rounded-sm cursor-move ${
+              selected ? 'border-emerald-300 bg-emerald-400/20' : 'border-emerald-500/80 bg-emerald-400/10'
+            }`}
+            style={style(tag.box)}
+            onPointerDown={e => startDrag(e, tag, 'move')}
+          >
+            <span className="absolute -top-6 left-0 bg-emerald-600 text-white text-[10px] font-semibold px-1.5 py-0.5 rounded whitespace-nowrap pointer-events-none">
+              {tag.name}
+            </span>
+            {selected && (Object.keys(HANDLE_POSITIONS) as Exclude<Handle, 'move'>[]).map(handle => (
+              <div
+                key={handle}
+                className={`absolute w-3 h-3 bg-white border-2 border-emerald-500 rounded-sm ${HANDLE_POSITIONS[handle]}`}
+                onPointerDown={e => startDrag(e, tag, handle)}
+              />
+            ))}
+          </div>
+        );
+      })}
+      {draft && (
+        <div className="absolute border-2 border-dashed border-emerald-300 bg-emerald-400/10 pointer-events-none" style={style(draft)} />
+      )}
+    </div>
+  );
+};
+
+export default TagEditorOverlay;
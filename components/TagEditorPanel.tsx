@@ -0,0 +1,184 @@
+import React from 'react';
+import { CuratedTag } from '../types';
+import { PRODUCT_CATEGORIES } from '../services/detectionValidator';
+import { formatTime } from '../services/timeFormat';
+
+interface TagEditorPanelProps {
+  tags: CuratedTag[];
+  selectedId: string | null;
+  currentTime: number;
+  duration: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onSelect: (id: string) => void;
+  /** Called when a field gains focus so the edits that follow undo as one step. */
+  onBeginChange: () => void;
+  onUpdate: (id: string, patch: Partial<CuratedTag>) => void;
+  onDelete: (id: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onImportDetections: () => void;
+  onSeek: (time: number) => void;
+}
+
+const inputClass = "w-full bg-slate-900/60 border border-slate-700 focus:border-emerald-500/60 rounded-md px-2 py-1 text-xs text-slate-200 outline-none";
+
+const TagEditorPanel: React.FC<TagEditorPanelProps> = ({
+  tags,
+  selectedId,
+  currentTime,
+  duration,
+  canUndo,
+  canRedo,
+  onSelect,
+  onBeginChange,
+  onUpdate,
+  onDelete,
+  onUndo,
+  onRedo,
+  onImportDetections,
+  onSeek,
+}) => {
+  const selected = tags.find(tag => tag.id === selectedId);
+  const maxTime = Math.max(duration, selected?.end ?? 0);
+
+  const setRange = (tag: CuratedTag, edge: 'start' | 'end', value: number) => {
+    // Keep in/out ordered with at least a tenth of a second between them
+    const patch = edge === 'start'
+      ? { start: Math.min(value, tag.end - 0.1) }
+      : { end: Math.max(value, tag.start + 0.1) };
+    onUpdate(tag.id, patch);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          className="text-xs px-2 py-1 rounded-md bg-slate-700/50 text-slate-300 disabled:opacity-30"
+          aria-label="Undo"
+          title="Undo (Ctrl+Z)"
+        >
+          <i className="fas fa-undo"></i>
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!canRedo}
+          className="text-xs px-2 py-1 rounded-md bg-slate-700/50 text-slate-300 disabled:opacity-30"
+          aria-label="Redo"
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          <i className="fas fa-redo"></i>
+        </button>
+        <button
+          onClick={onImportDetections}
+          className="ml-auto text-[11px] font-semibold px-2 py-1 rounded-md bg-emerald-600/20 border border-emerald-500/30 text-emerald-300 hover:bg-emerald-600/30"
+        >
+          <i className="fas fa-magic mr-1"></i>
+          Copy Current Detections
+        </button>
+      </div>
+
+      <p className="text-[11px] text-slate-500">
+        Drag on the video to add a tag. Drag a tag to move it, or its corners to resize.
+      </p>
+
+      {tags.length > 0 && (
+        <ul className="space-y-1 max-h-40 overflow-y-auto">
+          {tags.map(tag => (
+            <li key={tag.id}>
+              <button
+                onClick={() => onSelect(tag.id)}
+                className={`w-full flex items-center gap-2 text-left text-xs px-2 py-1.5 rounded-md transition-colors ${
+                  tag.id === selectedId ? 'bg-emerald-600/20 text-emerald-200' : 'text-slate-400 hover:bg-slate-700/40'
+                }`}
+              >
+                <span className="flex-1 truncate">{tag.name}</span>
+                <span className="text-[10px] text-slate-500">{formatTime(tag.start)}–{formatTime(tag.end)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <div className="space-y-3 bg-slate-900/40 border border-slate-700/50 rounded-xl p-3">
+          <label className="block space-y-1">
+            <span className="text-[10px] uppercase font-bold tracking-widest text-slate-500">Name</span>
+            <input
+              className={inputClass}
+              value={selected.name}
+              onFocus={onBeginChange}
+              onChange={e => onUpdate(selected.id, { name: e.target.value })}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-[10px] uppercase font-bold tracking-widest text-slate-500">Category</span>
+            <select
+              className={inputClass}
+              value={selected.category}
+              onFocus={onBeginChange}
+              onChange={e => onUpdate(selected.id, { category: e.target.value })}
+            >
+              {PRODUCT_CATEGORIES.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span className="text-[10px] uppercase font-bold tracking-widest text-slate-500">Link (blank = retailer search)</span>
+            <input
+              className={inputClass}
+              type="url"
+              placeholder="https://"
+              value={selected.shoppingLink}
+              onFocus={onBeginChange}
+              onChange={e => onUpdate(selected.id, { shoppingLink: e.target.value })}
+            />
+          </label>
+
+          {(['start', 'end'] as const).map(edge => (
+            <div key={edge} className="space-y-1">
+              <div className="flex items-center justify-between text-[10px] uppercase font-bold tracking-widest text-slate-500">
+                <span>{edge === 'start' ? 'Time In' : 'Time Out'} • {formatTime(selected[edge])}</span>
+                <span className="flex gap-2 normal-case tracking-normal font-semibold">
+                  <button
+                    onClick={() => { onBeginChange(); setRange(selected, edge, currentTime); }}
+                    className="text-emerald-400 hover:text-emerald-300"
+                  >
+                    Set to now
+                  </button>
+                  <button onClick={() => onSeek(selected[edge])} className="text-slate-400 hover:text-slate-200">
+                    Go
+                  </button>
+                </span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={maxTime || 1}
+                step={0.1}
+                value={selected[edge]}
+                onFocus={onBeginChange}
+                onChange={e => setRange(selected, edge, Number(e.target.value))}
+                className="w-full accent-emerald-500"
+                aria-label={edge === 'start' ? 'Time in' : 'Time out'}
+              />
+            </div>
+          ))}
+
+          <button
+            onClick={() => onDelete(selected.id)}
+            className="w-full text-xs font-semibold py-1.5 rounded-lg border border-red-500/30 text-red-300 hover:bg-red-500/10"
+          >
+            <i className="fas fa-trash-alt mr-1"></i>
+            Delete Tag
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagEditorPanel;
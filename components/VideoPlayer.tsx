@@ -1,91 +1,404 @@
 
-import React, { useRef, useState, useEffect } from 'react';
-import { detectProducts } from '../services/geminiService';
-import { DetectedProduct } from '../types';
+import React, { useRef, useState, useEffect, useImperativeHandle } from 'react';
+import { BoundingBox, DetectedProduct, DetectionProvider, FrameContext, TimelineEntry } from '../types';
+import { hammingDistance } from '../services/frameHash';
+import {
+  CapturedFrame,
+  FramePreprocessor,
+  captureVideoFrame,
+  cropVideoRegion,
+  framePreprocessor,
+} from '../services/frameCapture';
+import { isAbortError } from '../services/cancellation';
+import { DetectionErrorKind, classifyError, errorKind, isDetectionError } from '../services/detectionErrors';
+import { VideoSourceKind, attachSource, detectSourceKind } from '../services/videoSource';
+import { Rect, containRect } from '../services/videoGeometry';
+import {
+  LIVE_SCAN_MIN_INTERVAL_MS,
+  SCENE_CHANGE_DISTANCE,
+  appendTimelineEntry,
+  createLiveScanScheduler,
+} from '../services/liveScan';
+
+export interface VideoPlayerHandle {
+  seek: (time: number) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  /** Base64 JPEG of the given box in the current frame. */
+  cropRegion: (box: BoundingBox) => string | null;
+  /** Re-runs detection on the current frame, e.g. after a failure. */
+  analyze: () => void;
+}
 
 interface VideoPlayerProps {
   src: string;
-  onDetections: (detections: DetectedProduct[]) => void;
+  sourceKind?: VideoSourceKind;
+  /** False for sources whose frames can't be read back (no CORS). */
+  canCapture?: boolean;
+  /** When false, pausing no longer triggers analysis (e.g. curated tags are shown instead). */
+  autoAnalyze?: boolean;
+  videoId?: string;
+  provider: DetectionProvider;
+  /** Downscaling, letterbox cropping and encoding applied before `detect`. */
+  preprocessor?: FramePreprocessor;
+  liveScan?: boolean;
+  controlRef?: React.Ref<VideoPlayerHandle>;
+  onTimeline?: (timeline: TimelineEntry[]) => void;
+  /** `timestamp` is set for analysis results and omitted when markers are cleared. */
+  onDetections: (detections: DetectedProduct[], timestamp?: number) => void;
+  onTimeUpdate?: (time: number) => void;
+  onPlayStateChange?: (isPlaying: boolean) => void;
+  onSeeking?: () => void;
+  onEnded?: () => void;
   onProcessing: (isProcessing: boolean) => void;
-  onError: (message: string | null) => void;
+  /** `kind` is set for failed detection calls so the UI can offer a specific fix. */
+  onError: (message: string | null, kind?: DetectionErrorKind) => void;
+  /** Live scan gave up after a failure retrying can't fix (auth, CORS). */
+  onLiveScanStop?: () => void;
+  /**
+   * Overlays laid over the rendered picture (not the letterboxed container),
+   * so percentage boxes line up. They stay visible in fullscreen.
+   */
+  children?: React.ReactNode;
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ src, onDetections, onProcessing, onError }) => {
+const VideoPlayer: React.FC<VideoPlayerProps> = ({
+  src,
+  sourceKind,
+  canCapture = true,
+  autoAnalyze = true,
+  videoId,
+  provider,
+  preprocessor = framePreprocessor,
+  liveScan = false,
+  controlRef,
+  onTimeline,
+  onDetections,
+  onTimeUpdate,
+  onPlayStateChange,
+  onSeeking,
+  onEnded,
+  onProcessing,
+  onError,
+  onLiveScanStop,
+  children,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [videoRect, setVideoRect] = useState<Rect | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
   const [isPaused, setIsPaused] = useState(true);
+  const [liveScanStopped, setLiveScanStopped] = useState(false);
+  // Only the most recent request may publish results
+  const requestIdRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+  const timelineRef = useRef<TimelineEntry[]>([]);
 
-  const captureFrame = async () => {
-    if (!videoRef.current || !canvasRef.current) return;
+  useImperativeHandle(controlRef, () => ({
+    seek: (time) => {
+      if (videoRef.current) videoRef.current.currentTime = time;
+    },
+    getCurrentTime: () => videoRef.current?.currentTime ?? 0,
+    getDuration: () => {
+      const duration = videoRef.current?.duration ?? 0;
+      return Number.isFinite(duration) ? duration : 0;
+    },
+    cropRegion: (box) => (videoRef.current ? cropVideoRegion(videoRef.current, box) : null),
+    analyze: () => captureFrame(),
+  }));
+
+  const cancelAnalysis = () => {
+    requestIdRef.current++;
+    abortRef.current?.abort();
+    abortRef.current = null;
+  };
+
+  // Abandon in-flight work when the source changes or the player unmounts
+  useEffect(() => {
+    timelineRef.current = [];
+    onTimeline?.([]);
+    return () => {
+      cancelAnalysis();
+      onProcessing(false);
+    };
+  }, [src]);
 
+  // Streams need hls.js / dash.js attached; plain files just get a src
+  useEffect(() => {
     const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
+    if (!video) return;
+
+    let detach: (() => void) | null = null;
+    let disposed = false;
+    attachSource(video, src, sourceKind || detectSourceKind(src))
+      .then(d => (disposed ? d() : (detach = d)))
+      .catch(err => {
+        console.error("Source Error:", err);
+        onError("This stream could not be loaded. Check the manifest URL.");
+      });
+
+    return () => {
+      disposed = true;
+      detach?.();
+    };
+  }, [src, sourceKind, canCapture]);
+
+  // Track where object-contain actually draws the picture
+  useEffect(() => {
+    const container = containerRef.current;
+    const video = videoRef.current;
+    if (!container || !video) return;
+
+    const measure = () => {
+      setVideoRect(containRect(container.clientWidth, container.clientHeight, video.videoWidth, video.videoHeight));
+    };
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    // `resize` fires when the intrinsic size changes, e.g. an HLS rendition switch
+    video.addEventListener('loadedmetadata', measure);
+    video.addEventListener('resize', measure);
+    return () => {
+      observer.disconnect();
+      video.removeEventListener('loadedmetadata', measure);
+      video.removeEventListener('resize', measure);
+    };
+  }, []);
+
+  // Inside a shadow root (the embed) the document only reports the host
+  // element, so ask the root the container actually lives in
+  const fullscreenElement = () => {
+    const root = (containerRef.current?.getRootNode() ?? document) as Document | ShadowRoot;
+    return root.fullscreenElement;
+  };
+
+  // Fullscreen the container rather than the bare <video> so overlays come along
+  useEffect(() => {
+    const onFullscreenChange = () => {
+      const element = fullscreenElement();
+      setIsFullscreen(!!element && element === containerRef.current);
+      if (element && element === videoRef.current) {
+        // Native controls in browsers that ignore controlsList; swap in the container if allowed
+        document.exitFullscreen()
+          .then(() => containerRef.current?.requestFullscreen())
+          .catch(() => {});
+      }
+    };
+    document.addEventListener('fullscreenchange', onFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', onFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (fullscreenElement()) {
+      document.exitFullscreen().catch(() => {});
+    } else {
+      containerRef.current?.requestFullscreen().catch(err => console.warn("Fullscreen unavailable:", err));
+    }
+  };
+
+  const recordTimeline = (timestamp: number, products: DetectedProduct[]) => {
+    timelineRef.current = appendTimelineEntry(timelineRef.current, timestamp, products);
+    onTimeline?.(timelineRef.current);
+  };
+
+  const grabFrame = (signal?: AbortSignal) => captureVideoFrame(videoRef.current!, preprocessor, signal);
+
+  const frameContext = (frame: CapturedFrame): FrameContext => ({
+    videoId: videoId || src,
+    timestamp: frame.timestamp,
+    frameHash: frame.frameHash,
+    mimeType: frame.mimeType,
+    crop: frame.crop,
+  });
+
+  const hasValidDimensions = () => {
+    const video = videoRef.current;
+    return !!video && video.videoWidth > 0 && video.videoHeight > 0;
+  };
 
-    if (!ctx) return;
+  const captureFrame = async () => {
+    if (!videoRef.current) return;
 
-    // Reset dimensions
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
+    if (!canCapture) {
+      onError("This source doesn't allow frame capture (no CORS headers), so it can be watched but not analyzed.", "cors");
+      return;
+    }
 
-    if (canvas.width === 0 || canvas.height === 0) {
+    if (!hasValidDimensions()) {
       onError("Video dimensions are invalid. Ensure the video is loaded properly.");
       return;
     }
 
+    cancelAnalysis();
+    const requestId = requestIdRef.current;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const isCurrent = () => requestId === requestIdRef.current && !controller.signal.aborted;
+
     try {
       onError(null); // Clear previous errors
       onProcessing(true);
       onDetections([]); 
 
-      // Draw the current frame
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const frame = await grabFrame(controller.signal);
+      if (!frame || !isCurrent()) return;
 
-      // Convert to Base64
-      let dataUrl: string;
-      try {
-        dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-      } catch (e) {
-        throw new Error("Cannot capture frame due to security restrictions (CORS). Please try a local file or a CORS-enabled URL.");
-      }
+      const results = await provider.detect(frame.base64, frameContext(frame), controller.signal);
 
-      const base64 = dataUrl.split(',')[1];
-      const results = await detectProducts(base64);
-      onDetections(results.products);
+      if (!isCurrent()) return;
+      onDetections(results.products, frame.timestamp);
+      recordTimeline(frame.timestamp, results.products);
     } catch (error: any) {
+      if (isAbortError(error) || !isCurrent()) return;
       console.error("VideoPlayer Error:", error);
-      onError(error.message || "Failed to analyze the video frame.");
+      onError(error.message || "Failed to analyze the video frame.", errorKind(error));
     } finally {
-      onProcessing(false);
+      if (requestId === requestIdRef.current) {
+        abortRef.current = null;
+        onProcessing(false);
+      }
     }
   };
 
+  // A stopped live scan starts over when it's toggled or pointed at something else
+  useEffect(() => {
+    setLiveScanStopped(false);
+  }, [liveScan, src, provider]);
+
+  // Live scan: sample frames during playback, backing off with latency and failures
+  useEffect(() => {
+    if (!liveScan || liveScanStopped || !autoAnalyze || isPaused || !canCapture) return;
+
+    const scheduler = createLiveScanScheduler();
+    let timer: ReturnType<typeof setTimeout>;
+    let lastHash: string | undefined;
+    let failing = false;
+    let stopped = false;
+    const controller = new AbortController();
+
+    const tick = async () => {
+      if (stopped) return;
+      let delay = scheduler.nextDelay();
+
+      try {
+        if (hasValidDimensions()) {
+          const frame = await grabFrame(controller.signal);
+          if (stopped) return;
+          const unchanged = frame?.frameHash && lastHash
+            && hammingDistance(frame.frameHash, lastHash) <= SCENE_CHANGE_DISTANCE;
+
+          if (frame && unchanged) {
+            // Same scene as last time; check again soon without calling the backend
+            delay = LIVE_SCAN_MIN_INTERVAL_MS;
+          } else if (frame) {
+            const startedAt = performance.now();
+            const results = await provider.detect(frame.base64, frameContext(frame), controller.signal);
+            if (stopped) return;
+
+            scheduler.recordLatency(performance.now() - startedAt);
+            delay = scheduler.nextDelay();
+            if (failing) onError(null);
+            failing = false;
+            lastHash = frame.frameHash;
+            onDetections(results.products, frame.timestamp);
+            recordTimeline(frame.timestamp, results.products);
+          }
+        }
+      } catch (error: any) {
+        if (stopped || isAbortError(error)) return;
+        console.error("Live Scan Error:", error);
+        const classified = classifyError(error);
+        const kind = errorKind(classified);
+        onError(error.message || "Live scan failed to analyze the video.", kind);
+        if (kind === 'auth' || kind === 'cors') {
+          setLiveScanStopped(true);
+          onLiveScanStop?.();
+          return;
+        }
+        // Transient (timeout, rate limit, one bad frame): keep scanning, just less often
+        failing = true;
+        scheduler.recordFailure();
+        const retryAfterMs = isDetectionError(classified) ? classified.retryAfterMs ?? 0 : 0;
+        delay = Math.max(scheduler.nextDelay(), retryAfterMs);
+      }
+
+      timer = setTimeout(tick, delay);
+    };
+
+    timer = setTimeout(tick, LIVE_SCAN_MIN_INTERVAL_MS);
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [liveScan, liveScanStopped, autoAnalyze, isPaused, canCapture, src, videoId, provider]);
+
   const handlePause = () => {
     setIsPaused(true);
-    captureFrame();
+    onPlayStateChange?.(false);
+    if (autoAnalyze) captureFrame();
   };
 
   const handlePlay = () => {
     setIsPaused(false);
+    onPlayStateChange?.(true);
+    cancelAnalysis();
+    onProcessing(false);
     onError(null); // Clear errors on play
-    onDetections([]); // Clear markers
+    if (!liveScan) {
+      onDetections([]); // Clear markers; live scan replaces them as it goes
+    }
   };
 
   return (
-    <div className="relative group rounded-xl overflow-hidden shadow-2xl bg-black aspect-video max-w-4xl mx-auto border border-slate-800">
+    <div
+      ref={containerRef}
+      className={`relative group overflow-hidden bg-black ${
+        isFullscreen ? 'w-screen h-screen' : 'rounded-xl shadow-2xl aspect-video max-w-4xl mx-auto border border-slate-800'
+      }`}
+    >
       <video
         ref={videoRef}
-        src={src}
-        crossOrigin="anonymous"
+        crossOrigin={canCapture ? 'anonymous' : undefined}
         className="w-full h-full object-contain"
         onPause={handlePause}
         onPlay={handlePlay}
+        onEnded={onEnded}
+        onTimeUpdate={e => onTimeUpdate?.(e.currentTarget.currentTime)}
+        onSeeking={onSeeking}
+        onSeeked={e => onTimeUpdate?.(e.currentTarget.currentTime)}
         onError={() => onError("Error loading video source. Please check the file format or URL.")}
+        onDoubleClick={toggleFullscreen}
         controls
+        controlsList="nofullscreen"
       />
-      <canvas ref={canvasRef} className="hidden" />
+
+      {videoRect && (
+        <div
+          className="absolute pointer-events-none"
+          style={{ left: videoRect.left, top: videoRect.top, width: videoRect.width, height: videoRect.height }}
+        >
+          {children}
+        </div>
+      )}
+
+      <button
+        onClick={toggleFullscreen}
+        className="absolute top-3 right-3 z-40 w-8 h-8 rounded-md bg-black/60 text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity flex items-center justify-center"
+        aria-label={isFullscreen ? 'Exit fullscreen' : 'Enter fullscreen'}
+      >
+        <i className={`fas ${isFullscreen ? 'fa-compress' : 'fa-expand'}`}></i>
+      </button>
+
+      {liveScan && !liveScanStopped && !isPaused && (
+        <div className="absolute top-3 left-3 z-20 pointer-events-none flex items-center gap-2 bg-black/60 text-white text-[10px] font-bold tracking-widest px-2 py-1 rounded-md">
+          <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+          LIVE SCAN
+        </div>
+      )}
       
-      {isPaused && !videoRef.current?.ended && (
+      {isPaused && autoAnalyze && !videoRef.current?.ended && (
         <div className="absolute inset-0 pointer-events-none flex items-center justify-center bg-black/10 transition-opacity">
           <div className="bg-blue-600/80 p-3 rounded-full animate-pulse backdrop-blur-sm">
              <i className="fas fa-search text-white text-xl"></i>
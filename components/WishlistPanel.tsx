@@ -0,0 +1,89 @@
+import React from 'react';
+import { SavedProduct } from '../types';
+import { formatTime } from '../services/timeFormat';
+
+interface WishlistPanelProps {
+  items: SavedProduct[];
+  onSeek: (item: SavedProduct) => void;
+  onRemove: (item: SavedProduct) => void;
+  onExport: (format: 'json' | 'csv') => void;
+  onOutboundClick?: (item: SavedProduct) => void;
+}
+
+const WishlistPanel: React.FC<WishlistPanelProps> = ({ items, onSeek, onRemove, onExport, onOutboundClick }) => {
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-2xl border border-slate-700/50 backdrop-blur-md">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2 text-pink-400">
+          <i className="fas fa-heart"></i>
+          Saved Items
+        </h3>
+        {items.length > 0 && (
+          <div className="flex gap-1">
+            {(['json', 'csv'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => onExport(format)}
+                className="text-[10px] font-bold uppercase tracking-widest px-2 py-1 rounded-md bg-slate-700/50 text-slate-400 hover:text-slate-200 transition-colors"
+              >
+                {format}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Use the <i className="fas fa-heart"></i> on any product to keep it here across videos.
+        </p>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto">
+          {items.map(item => (
+            <li key={item.key} className="flex items-center gap-3 bg-slate-700/30 rounded-xl p-2">
+              {item.thumbnail ? (
+                <img
+                  src={`data:image/jpeg;base64,${item.thumbnail}`}
+                  alt={item.product.name}
+                  className="w-12 h-12 object-cover rounded-lg bg-black flex-shrink-0"
+                />
+              ) : (
+                <div className="w-12 h-12 rounded-lg bg-slate-700/60 flex items-center justify-center text-slate-500 flex-shrink-0">
+                  <i className="fas fa-tag"></i>
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <a
+                  href={item.product.shoppingLink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  onClick={() => onOutboundClick?.(item)}
+                  className="block font-semibold text-xs truncate hover:text-blue-300"
+                >
+                  {item.product.name}
+                </a>
+                <button
+                  onClick={() => onSeek(item)}
+                  className="text-[11px] text-slate-400 hover:text-blue-300 transition-colors"
+                  title="Jump to this moment"
+                >
+                  <i className="fas fa-play-circle mr-1"></i>
+                  {formatTime(item.timestamp)}
+                </button>
+              </div>
+              <button
+                onClick={() => onRemove(item)}
+                className="text-slate-500 hover:text-red-400 p-2 transition-colors"
+                aria-label={`Remove ${item.product.name}`}
+              >
+                <i className="fas fa-trash-alt text-xs"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default WishlistPanel;
@@ -0,0 +1,163 @@
+
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { DetectedProduct, DetectionProvider } from '../types';
+import { DetectionErrorKind } from '../services/detectionErrors';
+import { createDetectionProvider } from '../services/detectionProvider';
+import { RetailerRegistry, RetailerRegistryConfig, createRetailerRegistry } from '../services/retailerRegistry';
+import EmbeddedPlayer from '../components/EmbeddedPlayer';
+import styles from './styles.css?inline';
+
+export const ELEMENT_NAME = 'shopvision-player';
+
+const FONT_AWESOME_URL = 'https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.4.0/css/all.min.css';
+
+export interface ProductDetectedDetail {
+  products: DetectedProduct[];
+  timestamp: number;
+}
+
+export interface ProductClickedDetail {
+  product: DetectedProduct;
+}
+
+export interface AnalysisErrorDetail {
+  message: string;
+  kind?: DetectionErrorKind;
+}
+
+// @font-face rules are ignored inside shadow roots, so the icon font is registered on the page
+const ensureDocumentFonts = () => {
+  if (document.querySelector(`link[href="${FONT_AWESOME_URL}"]`)) return;
+  const link = document.createElement('link');
+  link.rel = 'stylesheet';
+  link.href = FONT_AWESOME_URL;
+  document.head.appendChild(link);
+};
+
+/**
+ * `<shopvision-player src="..." provider="mock" live-scan>` — the player and
+ * detection overlay with styles scoped to a shadow root.
+ *
+ * Attributes: `src`, `provider` ("gemini" | "mock"), `proxy-url` (base URL
+ * of the detection proxy in server/; same origin by default), `retailers`
+ * (JSON retailer config), `region`, `live-scan`. The `provider` and `retailers`
+ * properties also accept a provider object and a parsed config.
+ *
+ * Events (bubbling, composed): `product-detected`, `product-clicked`
+ * (cancelable; cancel to keep the shopping link from opening) and
+ * `analysis-error`.
+ */
+export class ShopVisionPlayerElement extends HTMLElement {
+  static observedAttributes = ['src', 'provider', 'proxy-url', 'retailers', 'region', 'live-scan'];
+
+  private root: ReactDOM.Root | null = null;
+  private providerValue: DetectionProvider | null = null;
+  // Resolved once per attribute value so live scan isn't restarted on every render
+  private attributeProvider: DetectionProvider | null = null;
+  private retailersValue: RetailerRegistryConfig | null = null;
+
+  get src(): string {
+    return this.getAttribute('src') || '';
+  }
+
+  set src(value: string) {
+    this.setAttribute('src', value);
+  }
+
+  get provider(): DetectionProvider {
+    if (this.providerValue) return this.providerValue;
+    if (!this.attributeProvider) {
+      this.attributeProvider = createDetectionProvider(this.getAttribute('provider') || undefined, {
+        proxyUrl: this.getAttribute('proxy-url') ?? undefined,
+      });
+    }
+    return this.attributeProvider;
+  }
+
+  set provider(value: DetectionProvider | string) {
+    if (typeof value === 'string') {
+      this.providerValue = null;
+      this.setAttribute('provider', value);
+    } else {
+      this.providerValue = value;
+      this.render();
+    }
+  }
+
+  get retailers(): RetailerRegistryConfig | null {
+    if (this.retailersValue) return this.retailersValue;
+    const attribute = this.getAttribute('retailers');
+    if (!attribute) return null;
+    try {
+      return JSON.parse(attribute) as RetailerRegistryConfig;
+    } catch {
+      console.warn(`${ELEMENT_NAME}: ignoring malformed "retailers" attribute.`);
+      return null;
+    }
+  }
+
+  set retailers(value: RetailerRegistryConfig | null) {
+    this.retailersValue = value;
+    this.render();
+  }
+
+  get liveScan(): boolean {
+    return this.hasAttribute('live-scan');
+  }
+
+  set liveScan(value: boolean) {
+    this.toggleAttribute('live-scan', value);
+  }
+
+  connectedCallback() {
+    if (!this.root) {
+      ensureDocumentFonts();
+      const shadow = this.shadowRoot || this.attachShadow({ mode: 'open' });
+      shadow.innerHTML = `<link rel="stylesheet" href="${FONT_AWESOME_URL}"><style>${styles}</style>`;
+      const mount = document.createElement('div');
+      shadow.appendChild(mount);
+      this.root = ReactDOM.createRoot(mount);
+    }
+    this.render();
+  }
+
+  disconnectedCallback() {
+    // Unmounting stops playback analysis; a re-attach builds a fresh tree
+    this.root?.unmount();
+    this.root = null;
+    this.shadowRoot?.replaceChildren();
+  }
+
+  attributeChangedCallback(name: string) {
+    if (name === 'provider' || name === 'proxy-url') this.attributeProvider = null;
+    this.render();
+  }
+
+  private emit<T>(type: string, detail: T, cancelable = false): boolean {
+    return this.dispatchEvent(new CustomEvent<T>(type, { detail, bubbles: true, composed: true, cancelable }));
+  }
+
+  private registry(): RetailerRegistry | undefined {
+    const config = this.retailers;
+    if (!config) return undefined;
+    return createRetailerRegistry(config, this.getAttribute('region') || config.defaultRegion);
+  }
+
+  private render() {
+    if (!this.root) return;
+    this.root.render(
+      <EmbeddedPlayer
+        // Remount per source so stale markers and errors never carry over
+        key={this.src}
+        src={this.src}
+        provider={this.provider}
+        registry={this.registry()}
+        liveScan={this.liveScan}
+        onDetected={(products, timestamp) => this.emit<ProductDetectedDetail>('product-detected', { products, timestamp })}
+        onProductClick={product => this.emit<ProductClickedDetail>('product-clicked', { product }, true)}
+        onError={(message, kind) => this.emit<AnalysisErrorDetail>('analysis-error', { message, kind })}
+      />
+    );
+  }
+}
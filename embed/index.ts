@@ -0,0 +1,16 @@
+import { ELEMENT_NAME, ShopVisionPlayerElement } from './ShopVisionPlayerElement';
+
+export { ELEMENT_NAME, ShopVisionPlayerElement };
+export type { AnalysisErrorDetail, ProductClickedDetail, ProductDetectedDetail } from './ShopVisionPlayerElement';
+export type { RetailerRegistryConfig } from '../services/retailerRegistry';
+export type { DetectedProduct, DetectionProvider } from '../types';
+
+if (!customElements.get(ELEMENT_NAME)) {
+  customElements.define(ELEMENT_NAME, ShopVisionPlayerElement);
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    [ELEMENT_NAME]: ShopVisionPlayerElement;
+  }
+}
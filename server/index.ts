@@ -0,0 +1,32 @@
+// Detection proxy. Reads GEMINI_API_KEY from the environment so it never
+// reaches the browser; run with DETECTION_PROVIDER=mock to serve the
+// recorded fixtures instead of calling the model.
+import { createDetectionProvider } from "../services/detectionProvider";
+import { createProxyServer } from "./proxyServer";
+import { createRateLimiter } from "./rateLimiter";
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// geminiService reads API_KEY, which direct-mode app builds fill in at build time
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+
+const port = numberFromEnv("PROXY_PORT", 8787);
+const provider = createDetectionProvider(process.env.DETECTION_PROVIDER, { transport: "direct" });
+
+const server = createProxyServer({
+  provider,
+  rateLimiter: createRateLimiter({
+    capacity: numberFromEnv("RATE_LIMIT_BURST", 10),
+    perMinute: numberFromEnv("RATE_LIMIT_PER_MINUTE", 30),
+  }),
+  maxImageBytes: numberFromEnv("MAX_IMAGE_BYTES", 2 * 1024 * 1024),
+  allowedOrigin: process.env.ALLOWED_ORIGIN,
+  trustProxy: process.env.TRUST_PROXY === "true",
+});
+
+server.listen(port, () => {
+  console.log(`Detection proxy (${provider.name}) listening on http://localhost:${port}/api/detect`);
+});
@@ -0,0 +1,211 @@
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DetectionProvider, DetectionResponse } from "../types";
+import { DetectionError, DetectionErrorKind } from "../services/detectionErrors";
+import { createProxyServer } from "./proxyServer";
+import { createRateLimiter } from "./rateLimiter";
+
+const IMAGE = Buffer.from("not really a jpeg").toString("base64");
+
+const RESPONSE: DetectionResponse = {
+  products: [{
+    id: "p1",
+    name: "Leather Boots",
+    category: "fashion",
+    confidence: 0.9,
+    box: { ymin: 100, xmin: 100, ymax: 400, xmax: 300 },
+    shoppingLink: "",
+  }],
+  warnings: [],
+};
+
+const stubProvider = (overrides: Partial<DetectionProvider> = {}): DetectionProvider => ({
+  name: "stub",
+  detect: async () => RESPONSE,
+  ...overrides,
+});
+
+let server: Server | null = null;
+
+const start = async (options: {
+  provider?: DetectionProvider;
+  capacity?: number;
+  maxImageBytes?: number;
+} = {}) => {
+  server = createProxyServer({
+    provider: options.provider ?? stubProvider(),
+    rateLimiter: createRateLimiter({ capacity: options.capacity ?? 10, perMinute: 60 }),
+    maxImageBytes: options.maxImageBytes ?? 1024 * 1024,
+  });
+  await new Promise<void>(resolve => server!.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const post = (url: string, body: unknown) =>
+  fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+beforeEach(() => {
+  // Failures are logged server-side; keep the test output readable
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  if (!server) return;
+  server.closeAllConnections();
+  await new Promise(resolve => server!.close(resolve));
+  server = null;
+});
+
+describe("createProxyServer", () => {
+  it("returns the provider's detections", async () => {
+    const base = await start();
+    const response = await post(`${base}/api/detect`, { image: IMAGE, frame: { videoId: "v", timestamp: 3 } });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(RESPONSE);
+  });
+
+  it("passes the parsed frame context to the provider", async () => {
+    let received: unknown;
+    const base = await start({
+      provider: stubProvider({
+        detect: async (_image, frame) => {
+          received = frame;
+          return RESPONSE;
+        },
+      }),
+    });
+    await post(`${base}/api/detect`, { image: IMAGE, frame: { videoId: "v", timestamp: 3, mimeType: "image/gif" } });
+
+    expect(received).toEqual({ videoId: "v", timestamp: 3, frameHash: undefined, mimeType: undefined, crop: undefined });
+  });
+
+  it("rejects an image that isn't base64", async () => {
+    const base = await start();
+    const response = await post(`${base}/api/detect`, { image: "not base64!" });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.kind).toBe("bad-request");
+  });
+
+  it("rejects a body that isn't JSON", async () => {
+    const base = await start();
+    const response = await post(`${base}/api/detect`, "{nope");
+
+    expect(response.status).toBe(400);
+  });
+
+  it("answers 413 for an image over the limit", async () => {
+    const base = await start({ maxImageBytes: 16 });
+    const response = await post(`${base}/api/detect`, { image: Buffer.alloc(64).toString("base64") });
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.kind).toBe("too-large");
+  });
+
+  it("answers 413 instead of resetting when a streamed body runs over", async () => {
+    const base = await start({ maxImageBytes: 1000 });
+    const response = await post(`${base}/api/detect`, { image: "A".repeat(200_000) });
+
+    expect(response.status).toBe(413);
+    expect(response.headers.get("connection")).toBe("close");
+  });
+
+  it("answers 429 with Retry-After once a client's burst is used up", async () => {
+    const base = await start({ capacity: 1 });
+    expect((await post(`${base}/api/detect`, { image: IMAGE })).status).toBe(200);
+
+    const limited = await post(`${base}/api/detect`, { image: IMAGE });
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("retry-after"))).toBeGreaterThan(0);
+    expect((await limited.json()).error.kind).toBe("quota");
+  });
+
+  it.each<[DetectionErrorKind, number]>([
+    ["quota", 429],
+    ["network", 502],
+    ["timeout", 504],
+    ["safety", 422],
+    ["invalid-json", 502],
+    ["unavailable", 503],
+    ["unknown", 500],
+  ])("maps a %s failure to %i", async (kind, status) => {
+    const base = await start({
+      provider: stubProvider({
+        detect: async () => {
+          throw new DetectionError(kind, `failed: ${kind}`);
+        },
+      }),
+    });
+    const response = await post(`${base}/api/detect`, { image: IMAGE });
+
+    expect(response.status).toBe(status);
+    expect(await response.json()).toEqual({ error: { kind, message: `failed: ${kind}` } });
+  });
+
+  it("hides auth details from the caller", async () => {
+    const base = await start({
+      provider: stubProvider({
+        detect: async () => {
+          throw new DetectionError("auth", "API key not valid: AIza...");
+        },
+      }),
+    });
+    const response = await post(`${base}/api/detect`, { image: IMAGE });
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toEqual({ kind: "auth", message: "The detection service is misconfigured." });
+  });
+
+  it("forwards the model's Retry-After", async () => {
+    const base = await start({
+      provider: stubProvider({
+        detect: async () => {
+          throw new DetectionError("quota", "Slow down", { retryAfterMs: 2500 });
+        },
+      }),
+    });
+    const response = await post(`${base}/api/detect`, { image: IMAGE });
+
+    expect(response.headers.get("retry-after")).toBe("3");
+  });
+
+  it("serves describe and identify", async () => {
+    const base = await start({
+      provider: stubProvider({
+        describe: async (_image, product) => ({ name: `${product.name} (described)`, description: "Brown" }),
+        identify: async () => ({ name: "Scarf", category: "fashion", confidence: 0.7 }),
+      }),
+    });
+
+    const described = await post(`${base}/api/describe`, { image: IMAGE, product: { name: "Boots", category: "fashion" } });
+    expect(await described.json()).toEqual({ name: "Boots (described)", description: "Brown" });
+
+    const identified = await post(`${base}/api/identify`, {
+      image: IMAGE,
+      region: { ymin: 100, xmin: 100, ymax: 300, xmax: 300 },
+      frame: { videoId: "v", timestamp: 1 },
+    });
+    expect(await identified.json()).toEqual({ identification: { name: "Scarf", category: "fashion", confidence: 0.7 } });
+  });
+
+  it("answers 501 when the provider can't describe", async () => {
+    const base = await start();
+    const response = await post(`${base}/api/describe`, { image: IMAGE, product: { name: "Boots", category: "fashion" } });
+
+    expect(response.status).toBe(501);
+  });
+
+  it("only accepts POST on known paths", async () => {
+    const base = await start();
+
+    expect((await fetch(`${base}/api/detect`)).status).toBe(405);
+    expect((await post(`${base}/api/other`, {})).status).toBe(404);
+  });
+});
@@ -0,0 +1,268 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from "node:http";
+import {
+  DescribeRequest,
+  DetectRequest,
+  DetectedProduct,
+  DetectionProvider,
+  FrameContext,
+  IdentifyRequest,
+  IdentifyResponse,
+  ProxyErrorResponse,
+} from "../types";
+import { DetectionErrorKind, classifyError, isDetectionError } from "../services/detectionErrors";
+import { isAbortError } from "../services/cancellation";
+import { normalizeBox } from "../services/detectionValidator";
+import { RateLimiter } from "./rateLimiter";
+
+export interface ProxyServerOptions {
+  /** Any provider works here; tests and local runs can pass the mock one. */
+  provider: DetectionProvider;
+  rateLimiter: RateLimiter;
+  /** Limit on the decoded frame, in bytes. */
+  maxImageBytes: number;
+  /** Origin allowed to call the proxy from a browser; omit for same-origin only. */
+  allowedOrigin?: string;
+  /** Use X-Forwarded-For for client ids; only safe behind a trusted proxy. */
+  trustProxy?: boolean;
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+const IMAGE_TYPES = ["image/jpeg", "image/webp", "image/png"];
+// Room for the JSON envelope and frame context around the image itself
+const BODY_OVERHEAD_BYTES = 16 * 1024;
+
+const STATUS_BY_KIND: Record<DetectionErrorKind, number> = {
+  auth: 500, // The server's own key is misconfigured, not the caller's fault
+  quota: 429,
+  network: 502,
+  timeout: 504,
+  safety: 422,
+  "invalid-json": 502,
+  cors: 400,
+  unavailable: 503,
+  unknown: 500,
+};
+
+/** Handles a POST body; resolves with the JSON to send back. */
+type Route = (body: string, signal: AbortSignal) => Promise<unknown>;
+
+class HttpError extends Error {
+  constructor(readonly status: number, readonly kind: string, message: string) {
+    super(message);
+  }
+}
+
+const decodedSize = (base64: string) => Math.floor((base64.length * 3) / 4) - (base64.match(/=+$/)?.[0].length ?? 0);
+
+const clientIdOf = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (trustProxy && typeof forwarded === "string" && forwarded) return forwarded.split(",")[0].trim();
+  return req.socket.remoteAddress || "unknown";
+};
+
+const readBody = (req: IncomingMessage, limit: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        // Stop reading but keep the socket open so the 413 still reaches the client
+        req.off("data", onData);
+        req.pause();
+        reject(new HttpError(413, "too-large", "The frame is larger than this server accepts."));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+
+const parseJson = (body: string): any => {
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new HttpError(400, "bad-request", "Request body must be JSON.");
+  }
+};
+
+const parseImage = (image: unknown, maxImageBytes: number): string => {
+  if (typeof image !== "string" || !image || !BASE64_PATTERN.test(image)) {
+    throw new HttpError(400, "bad-request", "`image` must be a base64 encoded JPEG, WebP or PNG.");
+  }
+  if (decodedSize(image) > maxImageBytes) {
+    throw new HttpError(413, "too-large", "The frame is larger than this server accepts.");
+  }
+  return image;
+};
+
+const parseFrame = (frame: any): FrameContext => {
+  const crop = frame?.crop === undefined ? undefined : normalizeBox(frame.crop);
+  return {
+    videoId: typeof frame?.videoId === "string" ? frame.videoId : "unknown",
+    timestamp: Number.isFinite(frame?.timestamp) ? frame.timestamp : 0,
+    frameHash: typeof frame?.frameHash === "string" ? frame.frameHash : undefined,
+    mimeType: IMAGE_TYPES.includes(frame?.mimeType) ? frame.mimeType : undefined,
+    crop: typeof crop === "object" ? crop : undefined,
+  };
+};
+
+const parseDetectRequest = (body: string, maxImageBytes: number): DetectRequest => {
+  const parsed = parseJson(body);
+  return { image: parseImage(parsed?.image, maxImageBytes), frame: parseFrame(parsed.frame) };
+};
+
+const parseDescribeRequest = (body: string, maxImageBytes: number): DescribeRequest => {
+  const parsed = parseJson(body);
+  const image = parseImage(parsed?.image, maxImageBytes);
+  const { name, category } = parsed.product ?? {};
+  if (typeof name !== "string" || !name.trim() || typeof category !== "string") {
+    throw new HttpError(400, "bad-request", "`product` needs a name and a category.");
+  }
+  return { image, product: { name: name.trim(), category } };
+};
+
+const parseIdentifyRequest = (body: string, maxImageBytes: number): IdentifyRequest => {
+  const parsed = parseJson(body);
+  const image = parseImage(parsed?.image, maxImageBytes);
+  const region = normalizeBox(parsed.region);
+  if (typeof region === "string") throw new HttpError(400, "bad-request", `\`region\` is invalid: ${region}.`);
+  return { image, region, frame: parseFrame(parsed.frame) };
+};
+
+// describe only reads the name and category of the product it follows up on
+const productStub = (product: DescribeRequest["product"]): DetectedProduct => ({
+  ...product,
+  id: "proxy",
+  confidence: 1,
+  box: { ymin: 0, xmin: 0, ymax: 1000, xmax: 1000 },
+  shoppingLink: "",
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, kind: string, message: string, headers?: Record<string, string>) => {
+  const body: ProxyErrorResponse = { error: { kind, message } };
+  sendJson(res, status, body, headers);
+};
+
+/**
+ * Replies before (all of) the body was read. The unread rest makes the
+ * connection unusable, so it is closed once the response is out; closing
+ * any earlier resets the socket and the client never sees the status.
+ */
+const rejectRequest = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  status: number,
+  kind: string,
+  message: string,
+  headers: Record<string, string>
+) => {
+  res.on("finish", () => req.socket.destroy());
+  sendError(res, status, kind, message, { ...headers, Connection: "close" });
+};
+
+/**
+ * Keeps the Gemini key on the server: browsers POST a frame to /api/detect
+ * and get a DetectionResponse back; /api/describe and /api/identify serve
+ * the follow-up calls on a crop. Each client is rate limited and images
+ * above `maxImageBytes` are rejected before they reach the model.
+ */
+export function createProxyServer(options: ProxyServerOptions): Server {
+  const corsHeaders: Record<string, string> = options.allowedOrigin
+    ? {
+        "Access-Control-Allow-Origin": options.allowedOrigin,
+        "Access-Control-Allow-Methods": "POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type",
+        Vary: "Origin",
+      }
+    : {};
+
+  const { provider, maxImageBytes } = options;
+  const routes: Record<string, Route> = {
+    "/api/detect": (body, signal) => {
+      const { image, frame } = parseDetectRequest(body, maxImageBytes);
+      return provider.detect(image, frame, signal);
+    },
+    "/api/describe": (body, signal) => {
+      if (!provider.describe) throw new HttpError(501, "unavailable", "This provider can't describe items.");
+      const { image, product } = parseDescribeRequest(body, maxImageBytes);
+      return provider.describe(image, productStub(product), signal);
+    },
+    "/api/identify": async (body, signal) => {
+      if (!provider.identify) throw new HttpError(501, "unavailable", "This provider can't identify regions.");
+      const { image, region, frame } = parseIdentifyRequest(body, maxImageBytes);
+      const response: IdentifyResponse = { identification: await provider.identify(image, region, frame, signal) };
+      return response;
+    },
+  };
+
+  const handle = async (route: Route, req: IncomingMessage, res: ServerResponse) => {
+    const limit = options.rateLimiter.take(clientIdOf(req, !!options.trustProxy));
+    if (!limit.allowed) {
+      rejectRequest(req, res, 429, "quota", "Too many detection requests. Slow down and try again.", {
+        ...corsHeaders,
+        "Retry-After": String(Math.ceil(limit.retryAfterMs / 1000)),
+      });
+      return;
+    }
+
+    // Stop paying for a model call nobody is waiting for
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      // base64 is 4/3 the size of what it encodes
+      const body = await readBody(req, Math.ceil((maxImageBytes * 4) / 3) + BODY_OVERHEAD_BYTES);
+      sendJson(res, 200, await route(body, controller.signal), corsHeaders);
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) return;
+      if (error instanceof HttpError) {
+        rejectRequest(req, res, error.status, error.kind, error.message, corsHeaders);
+        return;
+      }
+
+      const classified = classifyError(error);
+      const kind = isDetectionError(classified) ? classified.kind : "unknown";
+      console.error(`Detection failed (${kind}):`, error);
+      const retryAfter = isDetectionError(classified) && classified.retryAfterMs
+        ? { "Retry-After": String(Math.ceil(classified.retryAfterMs / 1000)) }
+        : {};
+      // Auth details describe the server's configuration, not something the caller can fix
+      const message = kind === "auth" ? "The detection service is misconfigured." : (classified as Error).message;
+      sendError(res, STATUS_BY_KIND[kind], kind, message, { ...corsHeaders, ...retryAfter });
+    }
+  };
+
+  return createServer((req, res) => {
+    const path = (req.url || "").split("?")[0];
+
+    const route = routes[path];
+    if (!route) {
+      sendError(res, 404, "not-found", "Not found.");
+      return;
+    }
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, corsHeaders);
+      res.end();
+      return;
+    }
+    if (req.method !== "POST") {
+      sendError(res, 405, "bad-request", "Use POST.", { ...corsHeaders, Allow: "POST, OPTIONS" });
+      return;
+    }
+
+    handle(route, req, res).catch(error => {
+      console.error("Unhandled proxy error:", error);
+      if (!res.headersSent) sendError(res, 500, "unknown", "Internal server error.");
+    });
+  });
+}
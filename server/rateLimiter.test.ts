@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./rateLimiter";
+
+const fakeClock = (start = 0) => {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+};
+
+describe("createRateLimiter", () => {
+  it("allows a burst up to capacity, then asks the client to wait", () => {
+    const clock = fakeClock();
+    const limiter = createRateLimiter({ capacity: 3, perMinute: 60 }, clock.now);
+
+    expect([1, 2, 3].map(() => limiter.take("a").allowed)).toEqual([true, true, true]);
+    expect(limiter.take("a")).toEqual({ allowed: false, retryAfterMs: 1000 });
+  });
+
+  it("refills at the sustained rate", () => {
+    const clock = fakeClock();
+    const limiter = createRateLimiter({ capacity: 1, perMinute: 30 }, clock.now);
+
+    limiter.take("a");
+    clock.advance(1000);
+    expect(limiter.take("a")).toEqual({ allowed: false, retryAfterMs: 1000 });
+    clock.advance(1000);
+    expect(limiter.take("a").allowed).toBe(true);
+  });
+
+  it("never refills above capacity", () => {
+    const clock = fakeClock();
+    const limiter = createRateLimiter({ capacity: 2, perMinute: 60 }, clock.now);
+
+    clock.advance(60_000);
+    expect([1, 2, 3].map(() => limiter.take("a").allowed)).toEqual([true, true, false]);
+  });
+
+  it("keeps clients apart", () => {
+    const clock = fakeClock();
+    const limiter = createRateLimiter({ capacity: 1, perMinute: 1 }, clock.now);
+
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a").allowed).toBe(false);
+    expect(limiter.take("b").allowed).toBe(true);
+  });
+
+  it("keeps an idle client's bucket until it has refilled", () => {
+    const clock = fakeClock();
+    const limiter = createRateLimiter({ capacity: 1, perMinute: 1, idleMs: 5000 }, clock.now);
+
+    limiter.take("a");
+    clock.advance(5000);
+    // Idle long enough to be swept, but a minute hasn't passed: still limited
+    expect(limiter.take("a").allowed).toBe(false);
+    clock.advance(60_000);
+    expect(limiter.take("a").allowed).toBe(true);
+  });
+});
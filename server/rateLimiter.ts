@@ -0,0 +1,67 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  /** How long until the next request would be allowed; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take: (clientId: string) => RateLimitResult;
+}
+
+export interface RateLimiterOptions {
+  /** Burst size per client. */
+  capacity: number;
+  /** Sustained requests per minute per client. */
+  perMinute: number;
+  /** Clients idle for this long are forgotten, once their bucket has refilled. */
+  idleMs?: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const DEFAULT_IDLE_MS = 10 * 60_000;
+
+/**
+ * Token bucket per client id. Buckets are swept lazily so a long-running
+ * proxy doesn't keep every address it has ever seen.
+ */
+export function createRateLimiter(
+  options: RateLimiterOptions,
+  now: () => number = Date.now
+): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = options.perMinute / 60_000;
+  const idleMs = options.idleMs ?? DEFAULT_IDLE_MS;
+  let lastSweep = now();
+
+  const sweep = (time: number) => {
+    if (time - lastSweep < idleMs) return;
+    lastSweep = time;
+    for (const [id, bucket] of buckets) {
+      const idle = time - bucket.updatedAt;
+      // Dropping a bucket that is still refilling would hand the client a fresh burst
+      if (idle >= idleMs && bucket.tokens + idle * refillPerMs >= options.capacity) buckets.delete(id);
+    }
+  };
+
+  return {
+    take: (clientId) => {
+      const time = now();
+      sweep(time);
+
+      const bucket = buckets.get(clientId) || { tokens: options.capacity, updatedAt: time };
+      bucket.tokens = Math.min(options.capacity, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = time;
+      buckets.set(clientId, bucket);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterMs: 0 };
+      }
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    },
+  };
+}
@@ -0,0 +1,143 @@
+import { DetectedProduct, DetectionProvider } from "../types";
+import { DetectionErrorKind } from "./detectionErrors";
+
+/** Where an outbound click happened, so surfaces can be compared. */
+export type ClickSurface = "overlay" | "results" | "panel" | "wishlist" | "similar";
+
+export type AnalyticsEventInput =
+  | { type: "analysis"; operation: "detect" | "identify"; provider: string; durationMs: number; productCount: number }
+  /** A detection answered from the detection cache instead of the model. */
+  | { type: "cache-hit"; provider: string; productCount: number }
+  | { type: "error"; kind: DetectionErrorKind; message: string }
+  | { type: "hover"; productId: string; name: string; category: string; dwellMs: number }
+  | {
+      type: "click";
+      productId: string;
+      name: string;
+      category: string;
+      /** "search" for the generic keyword link, "catalog" for similar-product matches. */
+      retailerId: string;
+      url: string;
+      surface: ClickSurface;
+    };
+
+export type AnalyticsEvent = AnalyticsEventInput & {
+  sessionId: string;
+  /** Wall clock, ms since epoch. */
+  at: number;
+  videoId?: string;
+  /** Playback position when the event happened, in seconds. */
+  videoTime?: number;
+};
+
+export interface AnalyticsSink {
+  record: (event: AnalyticsEvent) => void;
+  /** Sends anything buffered; called when the page is hidden. */
+  flush?: () => void;
+}
+
+export interface AnalyticsContext {
+  videoId?: string;
+  videoTime?: number;
+}
+
+export interface AnalyticsBus {
+  readonly sessionId: string;
+  track: (event: AnalyticsEventInput) => void;
+  /** Returns a function that removes the sink again. */
+  addSink: (sink: AnalyticsSink) => () => void;
+  /** Read on every event so clicks are attributed to the current video time. */
+  setContext: (context: (() => AnalyticsContext) | null) => void;
+  flush: () => void;
+}
+
+const newSessionId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Fans events out to every sink. A failing sink is logged and skipped so
+ * telemetry can never break the UI.
+ */
+export function createAnalyticsBus(sinks: AnalyticsSink[] = []): AnalyticsBus {
+  const sessionId = newSessionId();
+  const active = new Set(sinks);
+  let context: (() => AnalyticsContext) | null = null;
+
+  const eachSink = (action: (sink: AnalyticsSink) => void) => {
+    active.forEach(sink => {
+      try {
+        action(sink);
+      } catch (err) {
+        console.warn("Analytics sink failed:", err);
+      }
+    });
+  };
+
+  return {
+    sessionId,
+    track: (input) => {
+      const event: AnalyticsEvent = { ...input, ...context?.(), sessionId, at: Date.now() };
+      eachSink(sink => sink.record(event));
+    },
+    addSink: (sink) => {
+      active.add(sink);
+      return () => active.delete(sink);
+    },
+    setContext: (next) => {
+      context = next;
+    },
+    flush: () => eachSink(sink => sink.flush?.()),
+  };
+}
+
+export const analytics = createAnalyticsBus();
+
+/** Event for a click on one of `product`'s links. */
+export const clickEvent = (
+  product: DetectedProduct,
+  retailerId: string,
+  url: string,
+  surface: ClickSurface
+): AnalyticsEventInput => ({
+  type: "click",
+  productId: product.id,
+  name: product.name,
+  category: product.category.toLowerCase(),
+  retailerId,
+  url,
+  surface,
+});
+
+/** Retailer behind `product.shoppingLink`, which points at the top retailer when there is one. */
+export const primaryRetailerId = (product: DetectedProduct) =>
+  product.retailerLinks?.find(link => link.url === product.shoppingLink)?.retailerId ?? "search";
+
+/**
+ * Times `detect` and `identify` calls and reports how many products came
+ * back. Wrap the provider before the detection cache so hits aren't timed
+ * as analyses. Failures are reported where they surface in the UI, not here.
+ */
+export function withAnalytics(provider: DetectionProvider, bus: AnalyticsBus = analytics): DetectionProvider {
+  const timed = async <T>(operation: "detect" | "identify", call: () => Promise<T>, count: (result: T) => number) => {
+    const startedAt = performance.now();
+    const result = await call();
+    bus.track({
+      type: "analysis",
+      operation,
+      provider: provider.name,
+      durationMs: Math.round(performance.now() - startedAt),
+      productCount: count(result),
+    });
+    return result;
+  };
+
+  return {
+    ...provider,
+    detect: (base64Image, frame, signal) =>
+      timed("detect", () => provider.detect(base64Image, frame, signal), response => response.products.length),
+    identify: provider.identify && ((cropBase64, region, frame, signal) =>
+      timed("identify", () => provider.identify!(cropBase64, region, frame, signal), result => (result ? 1 : 0))),
+  };
+}
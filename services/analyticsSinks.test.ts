@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { DetectionProvider, DetectionResponse } from "../types";
+import { createAnalyticsBus, withAnalytics } from "./analytics";
+import { createSessionSummarySink } from "./analyticsSinks";
+import { createDetectionCache, withDetectionCache } from "./detectionCache";
+
+const RESPONSE: DetectionResponse = {
+  products: [{
+    id: "p1",
+    name: "Leather Boots",
+    category: "fashion",
+    confidence: 0.9,
+    box: { ymin: 100, xmin: 100, ymax: 400, xmax: 300 },
+    shoppingLink: "",
+  }],
+  warnings: [],
+};
+
+const slowProvider = (delayMs: number): DetectionProvider => ({
+  name: "stub",
+  detect: () => new Promise(resolve => setTimeout(() => resolve(RESPONSE), delayMs)),
+});
+
+describe("createSessionSummarySink", () => {
+  it("keeps cache hits out of the analysis count and latency", async () => {
+    const bus = createAnalyticsBus();
+    const summary = createSessionSummarySink();
+    bus.addSink(summary);
+    const provider = withDetectionCache(withAnalytics(slowProvider(20), bus), createDetectionCache(), {
+      onHit: response => bus.track({ type: "cache-hit", provider: "stub", productCount: response.products.length }),
+    });
+
+    await provider.detect("image", { videoId: "v", timestamp: 1 });
+    await provider.detect("image", { videoId: "v", timestamp: 1 });
+    await provider.detect("image", { videoId: "v", timestamp: 1.1 });
+
+    const { analyses, cacheHits, productsDetected, medianLatencyMs } = summary.getSummary();
+    expect({ analyses, cacheHits, productsDetected }).toEqual({ analyses: 1, cacheHits: 2, productsDetected: 1 });
+    expect(medianLatencyMs).toBeGreaterThanOrEqual(15);
+  });
+
+  it("counts errors by kind", () => {
+    const summary = createSessionSummarySink();
+    const event = { sessionId: "s", at: 0 };
+    summary.record({ ...event, type: "error", kind: "quota", message: "Slow down" });
+    summary.record({ ...event, type: "error", kind: "quota", message: "Slow down" });
+    summary.record({ ...event, type: "error", kind: "cors", message: "Blocked" });
+
+    expect(summary.getSummary().errorsByKind).toEqual({ quota: 2, cors: 1 });
+  });
+});
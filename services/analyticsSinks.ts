@@ -0,0 +1,198 @@
+import { AnalyticsEvent, AnalyticsSink } from "./analytics";
+import { DetectionErrorKind } from "./detectionErrors";
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL_MS = 10_000;
+// Browsers reject beacons above ~64KB; stay well clear of it
+const MAX_BEACON_BYTES = 60 * 1024;
+
+/** Logs every event; meant for local debugging. */
+export function createConsoleSink(): AnalyticsSink {
+  return {
+    record: (event) => console.debug(`[analytics] ${event.type}`, event),
+  };
+}
+
+export interface BeaconSinkOptions {
+  url: string;
+  /** Events buffered before a send is forced. */
+  batchSize?: number;
+  flushIntervalMs?: number;
+}
+
+/**
+ * Buffers events and POSTs them as `{ events: [...] }`. Uses
+ * `navigator.sendBeacon` so the last batch survives the page closing, and
+ * falls back to a keepalive fetch where beacons aren't available or the
+ * batch is too large. Delivery is best effort: failed batches are dropped.
+ */
+export function createBeaconSink({
+  url,
+  batchSize = DEFAULT_BATCH_SIZE,
+  flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS,
+}: BeaconSinkOptions): AnalyticsSink {
+  let buffer: AnalyticsEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const send = (events: AnalyticsEvent[]) => {
+    const body = JSON.stringify({ events });
+    const blob = new Blob([body], { type: "application/json" });
+    if (typeof navigator !== "undefined" && navigator.sendBeacon && blob.size <= MAX_BEACON_BYTES) {
+      if (navigator.sendBeacon(url, blob)) return;
+    }
+    fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+      keepalive: blob.size <= MAX_BEACON_BYTES,
+    }).catch(err => console.warn("Could not send analytics batch:", err));
+  };
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (buffer.length === 0) return;
+    const events = buffer;
+    buffer = [];
+    send(events);
+  };
+
+  if (typeof document !== "undefined") {
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "hidden") flush();
+    });
+    window.addEventListener("pagehide", flush);
+  }
+
+  return {
+    record: (event) => {
+      buffer.push(event);
+      if (buffer.length >= batchSize) flush();
+      else if (!timer) timer = setTimeout(flush, flushIntervalMs);
+    },
+    flush,
+  };
+}
+
+export interface ProductEngagement {
+  productId: string;
+  name: string;
+  category: string;
+  hovers: number;
+  clicks: number;
+}
+
+export interface SessionSummary {
+  /** Model calls; detections served from the cache are counted in `cacheHits` instead. */
+  analyses: number;
+  cacheHits: number;
+  /** Median and slowest detection latency, in ms; null before the first analysis. */
+  medianLatencyMs: number | null;
+  maxLatencyMs: number | null;
+  productsDetected: number;
+  errorsByKind: Partial<Record<DetectionErrorKind, number>>;
+  clicksByRetailer: Record<string, number>;
+  clicksByCategory: Record<string, number>;
+  /** Most engaged first. */
+  products: ProductEngagement[];
+}
+
+export interface SessionSummarySink extends AnalyticsSink {
+  getSummary: () => SessionSummary;
+  /** For `useSyncExternalStore`; returns the unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+  reset: () => void;
+}
+
+const EMPTY_SUMMARY: SessionSummary = {
+  analyses: 0,
+  cacheHits: 0,
+  medianLatencyMs: null,
+  maxLatencyMs: null,
+  productsDetected: 0,
+  errorsByKind: {},
+  clicksByRetailer: {},
+  clicksByCategory: {},
+  products: [],
+};
+
+const increment = <K extends string>(counts: Partial<Record<K, number>>, key: K) => ({
+  ...counts,
+  [key]: (counts[key] ?? 0) + 1,
+});
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+};
+
+/**
+ * Keeps running totals for the current session in memory, for the local
+ * dashboard. The summary object is replaced on every change so React can
+ * compare snapshots by identity.
+ */
+export function createSessionSummarySink(): SessionSummarySink {
+  let summary = EMPTY_SUMMARY;
+  let latencies: number[] = [];
+  const engagement = new Map<string, ProductEngagement>();
+  const listeners = new Set<() => void>();
+
+  const engage = (event: Extract<AnalyticsEvent, { type: "hover" | "click" }>, field: "hovers" | "clicks") => {
+    const entry = engagement.get(event.productId)
+      ?? { productId: event.productId, name: event.name, category: event.category, hovers: 0, clicks: 0 };
+    engagement.set(event.productId, { ...entry, [field]: entry[field] + 1 });
+    return [...engagement.values()].sort((a, b) => b.clicks - a.clicks || b.hovers - a.hovers);
+  };
+
+  const update = (next: SessionSummary) => {
+    summary = next;
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    record: (event) => {
+      switch (event.type) {
+        case "analysis":
+          if (event.operation === "detect") latencies = [...latencies, event.durationMs];
+          update({
+            ...summary,
+            analyses: summary.analyses + 1,
+            medianLatencyMs: latencies.length ? median(latencies) : summary.medianLatencyMs,
+            maxLatencyMs: latencies.length ? Math.max(...latencies) : summary.maxLatencyMs,
+            productsDetected: summary.productsDetected + event.productCount,
+          });
+          break;
+        case "cache-hit":
+          update({ ...summary, cacheHits: summary.cacheHits + 1 });
+          break;
+        case "error":
+          update({ ...summary, errorsByKind: increment(summary.errorsByKind, event.kind) });
+          break;
+        case "hover":
+          update({ ...summary, products: engage(event, "hovers") });
+          break;
+        case "click":
+          update({
+            ...summary,
+            clicksByRetailer: increment(summary.clicksByRetailer, event.retailerId),
+            clicksByCategory: increment(summary.clicksByCategory, event.category),
+            products: engage(event, "clicks"),
+          });
+          break;
+      }
+    },
+    getSummary: () => summary,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    reset: () => {
+      latencies = [];
+      engagement.clear();
+      update(EMPTY_SUMMARY);
+    },
+  };
+}
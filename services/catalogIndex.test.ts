@@ -0,0 +1,173 @@
+import { readFileSync } from "node:fs";
+import { Canvas, createCanvas, loadImage } from "@napi-rs/canvas";
+import { describe, expect, it } from "vitest";
+import { CatalogProduct } from "../types";
+import { createCatalogIndex, parseCatalogFeed } from "./catalogIndex";
+import { ImageEmbedder, SAMPLE_SIZE, embedPixels } from "./imageEmbedding";
+
+const FIXTURE_TEXT = readFileSync(new URL("../fixtures/catalog.json", import.meta.url), "utf8");
+
+const loadFixtureImage = (src: string) => loadImage(Buffer.from(decodeURIComponent(src.split(",")[1])));
+
+const embedCanvas = (source: Canvas | Awaited<ReturnType<typeof loadImage>>) => {
+  const canvas = createCanvas(SAMPLE_SIZE, SAMPLE_SIZE);
+  const ctx = canvas.getContext("2d");
+  ctx.drawImage(source, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  return embedPixels(ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data);
+};
+
+// The browser embedder needs a DOM canvas; render the fixture SVGs with a Node one instead
+const embedWithNodeCanvas: ImageEmbedder = async (src) => embedCanvas(await loadFixtureImage(src));
+
+/**
+ * What a detection crop of the product looks like: the packshot shrunk into
+ * a 640x360 frame over a coloured backdrop, then cut out with the same
+ * padding `cropVideoRegion` adds.
+ */
+const videoCropOf = async (src: string) => {
+  const frame = createCanvas(640, 360);
+  const ctx = frame.getContext("2d");
+  ctx.fillStyle = "#3a4a6b";
+  ctx.fillRect(0, 0, 640, 360);
+  const box = { x: 200, y: 120, size: 110 };
+  ctx.drawImage(await loadFixtureImage(src), box.x, box.y, box.size, box.size);
+
+  const pad = box.size * 0.08;
+  const size = Math.round(box.size + 2 * pad);
+  const crop = createCanvas(size, size);
+  crop.getContext("2d").drawImage(frame, box.x - pad, box.y - pad, size, size, 0, 0, size, size);
+  return embedCanvas(crop);
+};
+
+describe("parseCatalogFeed", () => {
+  it("reads a JSON array", () => {
+    const { products, skipped } = parseCatalogFeed(FIXTURE_TEXT, "catalog.json");
+
+    expect(products).toHaveLength(8);
+    expect(skipped).toEqual([]);
+    expect(products[0]).toMatchObject({ id: "cat-001", title: "Heritage Leather Messenger Bag", price: 189, currency: "USD" });
+  });
+
+  it("reads a `{ products }` wrapper", () => {
+    const { products } = parseCatalogFeed(JSON.stringify({
+      products: [{ id: "a", title: "Mug", image: "https://cdn.test/mug.png", url: "https://shop.test/mug" }],
+    }));
+
+    expect(products).toEqual([{
+      id: "a",
+      title: "Mug",
+      imageUrl: "https://cdn.test/mug.png",
+      url: "https://shop.test/mug",
+      price: undefined,
+      currency: undefined,
+      category: undefined,
+      brand: undefined,
+    }]);
+  });
+
+  it("rejects malformed JSON and JSON that isn't a list", () => {
+    expect(() => parseCatalogFeed("[{", "feed.json")).toThrow("not valid JSON");
+    expect(() => parseCatalogFeed('{"items": []}')).toThrow("must be an array");
+  });
+
+  it("reads CSV with quoted fields and Merchant Center column names", () => {
+    const csv = [
+      "ID,Name,Image_Link,Link,Price,Brand,Product_Type",
+      '1,"Chair, oak",https://cdn.test/chair.png,https://shop.test/chair,"1,249.00 eur",Nord,furniture',
+      '2,"The ""Classic"" Tee",https://cdn.test/tee.png,https://shop.test/tee,19.99 USD,,fashion',
+    ].join("\r\n");
+    const { products, skipped } = parseCatalogFeed(csv, "feed.csv");
+
+    expect(skipped).toEqual([]);
+    expect(products[0]).toMatchObject({ id: "1", title: "Chair, oak", price: 1249, currency: "EUR", brand: "Nord", category: "furniture" });
+    expect(products[1]).toMatchObject({ title: 'The "Classic" Tee', price: 19.99, currency: "USD", brand: undefined });
+  });
+
+  it("skips rows without a title, image or URL and says why", () => {
+    const csv = [
+      "title,image_link,link,currency",
+      "Lamp,https://cdn.test/lamp.png,https://shop.test/lamp,US DOLLARS",
+      ",https://cdn.test/x.png,https://shop.test/x,",
+      "Rug,,https://shop.test/rug,",
+      "Vase,https://cdn.test/vase.png,,",
+    ].join("\n");
+    const { products, skipped } = parseCatalogFeed(csv, "feed.csv");
+
+    expect(products.map(p => p.title)).toEqual(["Lamp"]);
+    // Not a currency code Intl can format
+    expect(products[0].currency).toBeUndefined();
+    expect(skipped).toEqual(["row 2: missing title", "row 3: missing image", "row 4: missing url"]);
+  });
+});
+
+describe("createCatalogIndex", () => {
+  const fixtureProducts = (): CatalogProduct[] => parseCatalogFeed(FIXTURE_TEXT, "catalog.json").products;
+
+  it("indexes every fixture product", async () => {
+    const index = createCatalogIndex(embedWithNodeCanvas);
+    const progress: number[] = [];
+    const result = await index.build(fixtureProducts(), { onProgress: done => progress.push(done) });
+
+    expect(result).toEqual({ indexed: 8, skipped: [] });
+    expect(index.size).toBe(8);
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it("finds each fixture product as its own best match", async () => {
+    const products = fixtureProducts();
+    const index = createCatalogIndex(embedWithNodeCanvas);
+    await index.build(products);
+
+    for (const product of products) {
+      const [best] = index.search((await embedWithNodeCanvas(product.imageUrl))!);
+      expect(best.product.id).toBe(product.id);
+      expect(best.score).toBeCloseTo(1, 5);
+    }
+  });
+
+  it.each([
+    ["cat-001", "cat-005"],
+    ["cat-003", "cat-006"],
+    ["cat-004", "cat-008"],
+    ["cat-005", "cat-003"],
+    ["cat-007", "cat-001"],
+  ])("finds %s from a video crop over a different background, but not %s", async (id, unrelatedId) => {
+    const products = fixtureProducts();
+    const index = createCatalogIndex(embedWithNodeCanvas);
+    await index.build(products);
+
+    // Only matches at or above the minimum score come back
+    const matches = index.search(await videoCropOf(products.find(p => p.id === id)!.imageUrl));
+    expect(matches[0]?.product.id).toBe(id);
+    expect(matches.map(m => m.product.id)).not.toContain(unrelatedId);
+  });
+
+  it("ranks matches by score and honours the limit", async () => {
+    const products = fixtureProducts();
+    const index = createCatalogIndex(embedWithNodeCanvas);
+    await index.build(products);
+
+    const matches = index.search((await embedWithNodeCanvas(products[0].imageUrl))!, 2);
+    expect(matches[0].product.id).toBe(products[0].id);
+    expect(matches.length).toBeLessThanOrEqual(2);
+    expect(matches.map(m => m.score)).toEqual([...matches.map(m => m.score)].sort((a, b) => b - a));
+  });
+
+  it("reports images that can't be embedded instead of failing the build", async () => {
+    const index = createCatalogIndex(async src => (src.includes("tainted") ? null : [1, 0]));
+    const result = await index.build([
+      { id: "a", title: "Kept", imageUrl: "https://cdn.test/a.png", url: "https://shop.test/a" },
+      { id: "b", title: "Tainted", imageUrl: "https://cdn.test/tainted.png", url: "https://shop.test/b" },
+    ]);
+
+    expect(result.indexed).toBe(1);
+    expect(result.skipped).toEqual(["Tainted: image host doesn't allow CORS"]);
+  });
+
+  it("drops matches below the minimum score", async () => {
+    const index = createCatalogIndex(async () => [1, 0]);
+    await index.build([{ id: "a", title: "A", imageUrl: "x", url: "y" }]);
+
+    expect(index.search([0, 1])).toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+import { CatalogProduct, SimilarProduct } from "../types";
+import { throwIfAborted } from "./cancellation";
+import { normalizeCurrency } from "./detectionValidator";
+import { ImageEmbedder, cosineSimilarity, embedImageUrl } from "./imageEmbedding";
+
+interface IndexedProduct {
+  product: CatalogProduct;
+  embedding: number[];
+}
+
+export interface CatalogBuildResult {
+  indexed: number;
+  /** Rows that were dropped, with the reason. */
+  skipped: string[];
+}
+
+export interface CatalogIndex {
+  readonly size: number;
+  /** Replaces the index contents; images are fetched and embedded as it goes. */
+  build: (
+    products: CatalogProduct[],
+    options?: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void }
+  ) => Promise<CatalogBuildResult>;
+  search: (embedding: number[], limit?: number) => SimilarProduct[];
+}
+
+const DEFAULT_RESULTS = 4;
+// Below this the match is more likely noise than a lookalike
+const MIN_SCORE = 0.55;
+
+// Accept the column names common product feeds use (e.g. Google Merchant Center)
+const FIELD_ALIASES: Record<keyof CatalogProduct, string[]> = {
+  id: ["id", "sku", "item_id"],
+  title: ["title", "name", "product_name"],
+  imageUrl: ["imageurl", "image_url", "image_link", "image"],
+  url: ["url", "link", "product_url"],
+  price: ["price", "sale_price"],
+  currency: ["currency"],
+  category: ["category", "product_type", "google_product_category"],
+  brand: ["brand"],
+};
+
+const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some(value => value.trim())) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some(value => value.trim())) rows.push(row);
+
+  const [header = [], ...body] = rows;
+  const keys = header.map(h => h.trim().toLowerCase());
+  return body.map(values => Object.fromEntries(keys.map((key, i) => [key, (values[i] ?? "").trim()])));
+};
+
+const pick = (record: Record<string, unknown>, field: keyof CatalogProduct): unknown => {
+  const lowered = Object.fromEntries(Object.entries(record).map(([k, v]) => [k.toLowerCase(), v]));
+  const key = FIELD_ALIASES[field].find(alias => lowered[alias] !== undefined && lowered[alias] !== "");
+  return key ? lowered[key] : undefined;
+};
+
+const normalizeRow = (record: Record<string, unknown>, index: number): CatalogProduct | string => {
+  const title = pick(record, "title");
+  const imageUrl = pick(record, "imageUrl");
+  const url = pick(record, "url");
+  if (typeof title !== "string" || !title.trim()) return `row ${index + 1}: missing title`;
+  if (typeof imageUrl !== "string" || !imageUrl) return `row ${index + 1}: missing image`;
+  if (typeof url !== "string" || !url) return `row ${index + 1}: missing url`;
+
+  // Feeds often write prices as "19.99 USD"
+  const rawPrice = pick(record, "price");
+  const priceMatch = /([\d.,]+)\s*([A-Za-z]{3})?/.exec(String(rawPrice ?? ""));
+  const price = priceMatch ? parseFloat(priceMatch[1].replace(/,/g, "")) : NaN;
+  const currency = pick(record, "currency") ?? priceMatch?.[2];
+
+  const optional = (field: keyof CatalogProduct) => {
+    const value = pick(record, field);
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  };
+
+  return {
+    id: String(pick(record, "id") ?? `item-${index + 1}`),
+    title: title.trim(),
+    imageUrl,
+    url,
+    price: Number.isFinite(price) ? price : undefined,
+    currency: normalizeCurrency(currency),
+    category: optional("category"),
+    brand: optional("brand"),
+  };
+};
+
+const normalizeRecords = (records: Record<string, unknown>[]) => {
+  const products: CatalogProduct[] = [];
+  const skipped: string[] = [];
+  records.forEach((record, index) => {
+    const result = record && typeof record === "object" ? normalizeRow(record, index) : `row ${index + 1}: not an object`;
+    if (typeof result === "string") skipped.push(result);
+    else products.push(result);
+  });
+  return { products, skipped };
+};
+
+/**
+ * Parses a JSON (array, or `{ products: [...] }`) or CSV product feed.
+ * Rows without a title, image or URL are reported in `skipped`.
+ */
+export function parseCatalogFeed(text: string, fileName = ""): { products: CatalogProduct[]; skipped: string[] } {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  let records: Record<string, unknown>[];
+  if (isJson) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error("The product feed is not valid JSON.");
+    }
+    records = Array.isArray(parsed) ? parsed : parsed?.products;
+    if (!Array.isArray(records)) throw new Error("The JSON feed must be an array of products.");
+  } else {
+    records = parseCsv(text);
+  }
+
+  return normalizeRecords(records);
+}
+
+export function createCatalogIndex(embedImage: ImageEmbedder = embedImageUrl): CatalogIndex {
+  let entries: IndexedProduct[] = [];
+
+  return {
+    get size() {
+      return entries.length;
+    },
+    build: async (products, { signal, onProgress } = {}) => {
+      const next: IndexedProduct[] = [];
+      const skipped: string[] = [];
+
+      for (let i = 0; i < products.length; i++) {
+        throwIfAborted(signal);
+        const product = products[i];
+        try {
+          const embedding = await embedImage(product.imageUrl, signal);
+          if (embedding) next.push({ product, embedding });
+          else skipped.push(`${product.title}: image host doesn't allow CORS`);
+        } catch (err: any) {
+          throwIfAborted(signal);
+          skipped.push(`${product.title}: ${err.message}`);
+        }
+        onProgress?.(i + 1, products.length);
+      }
+
+      entries = next;
+      return { indexed: next.length, skipped };
+    },
+    search: (embedding, limit = DEFAULT_RESULTS) =>
+      entries
+        .map(entry => ({ product: entry.product, score: cosineSimilarity(embedding, entry.embedding) }))
+        .filter(match => match.score >= MIN_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit),
+  };
+}
+
+/** Embeds a base64 JPEG crop (see `cropVideoRegion`) and looks it up in `index`. */
+export async function searchByCrop(
+  index: CatalogIndex,
+  cropBase64: string,
+  limit?: number,
+  embedImage: ImageEmbedder = embedImageUrl
+): Promise<SimilarProduct[]> {
+  const embedding = await embedImage(`data:image/jpeg;base64,${cropBase64}`);
+  if (!embedding) throw new Error("Could not read the selected crop.");
+  return index.search(embedding, limit);
+}
@@ -0,0 +1,66 @@
+import { BoundingBox, CuratedTag, DetectedProduct } from "../types";
+import { attachRetailerLinks } from "./retailerRegistry";
+
+const STORAGE_PREFIX = "shopvision.tags.";
+// New tags cover a few seconds around the moment they were added
+const DEFAULT_TAG_SECONDS = 5;
+
+let tagCounter = 0;
+const nextTagId = () => `tag-${Date.now().toString(36)}-${++tagCounter}`;
+
+export function createTag(box: BoundingBox, time: number, duration: number): CuratedTag {
+  return {
+    id: nextTagId(),
+    name: "New product",
+    category: "accessories",
+    confidence: 1,
+    box,
+    shoppingLink: "",
+    origin: "curated",
+    start: time,
+    end: duration > 0 ? Math.min(duration, time + DEFAULT_TAG_SECONDS) : time + DEFAULT_TAG_SECONDS,
+  };
+}
+
+export function tagFromProduct(product: DetectedProduct, time: number, duration: number): CuratedTag {
+  return {
+    ...createTag(product.box, time, duration),
+    name: product.name,
+    category: product.category,
+    attributes: product.attributes,
+  };
+}
+
+/**
+ * Tags visible at `time`, shaped like detections. Links are resolved from
+ * the retailer registry unless the editor typed one in.
+ */
+export function tagsAt(tags: CuratedTag[], time: number): DetectedProduct[] {
+  return tags
+    .filter(tag => tag.start <= time && time < tag.end)
+    .map(tag => {
+      const resolved = attachRetailerLinks(tag);
+      return tag.shoppingLink ? { ...resolved, shoppingLink: tag.shoppingLink } : resolved;
+    });
+}
+
+export function loadCuratedTags(videoId: string): CuratedTag[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + videoId);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCuratedTags(videoId: string, tags: CuratedTag[]) {
+  try {
+    if (tags.length === 0) {
+      localStorage.removeItem(STORAGE_PREFIX + videoId);
+    } else {
+      localStorage.setItem(STORAGE_PREFIX + videoId, JSON.stringify(tags));
+    }
+  } catch (err) {
+    console.warn("Could not persist curated tags:", err);
+  }
+}
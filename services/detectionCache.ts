@@ -0,0 +1,148 @@
+import { DetectionProvider, DetectionResponse, FrameContext } from "../types";
+import { throwIfAborted } from "./cancellation";
+import { hammingDistance } from "./frameHash";
+import { STORES, isIndexedDBAvailable, withStore } from "./idb";
+
+// Pauses within the same half second map to the same entry
+const TIME_QUANTUM_SECONDS = 0.5;
+// Out of 64 bits; small enough that only re-encodes of the same shot match
+const MAX_HASH_DISTANCE = 4;
+const DEFAULT_MAX_ENTRIES = 300;
+
+interface CacheEntry {
+  key: string;
+  videoId: string;
+  bucket: number;
+  frameHash?: string;
+  response: DetectionResponse;
+  lastAccessed: number;
+}
+
+export interface DetectionCache {
+  get: (frame: FrameContext) => Promise<DetectionResponse | null>;
+  set: (frame: FrameContext, response: DetectionResponse) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const bucketFor = (timestamp: number) => Math.round(timestamp / TIME_QUANTUM_SECONDS);
+const keyFor = (videoId: string, bucket: number) => `${videoId}@${bucket}`;
+
+/**
+ * LRU cache of detection responses, mirrored to IndexedDB so re-pausing on
+ * an already analyzed frame is free across reloads. Falls back to memory
+ * only when IndexedDB is unavailable.
+ */
+export function createDetectionCache(maxEntries: number = DEFAULT_MAX_ENTRIES): DetectionCache {
+  const persistent = isIndexedDBAvailable();
+  const entries = new Map<string, CacheEntry>();
+  let loaded: Promise<void> | null = null;
+
+  const load = () => {
+    if (!loaded) {
+      loaded = persistent
+        ? withStore<CacheEntry[]>(STORES.detections, "readonly", store => store.getAll())
+            .then(stored => stored.forEach(entry => entries.set(entry.key, entry)))
+            .catch(err => console.warn("Detection cache unavailable, using memory only:", err))
+        : Promise.resolve();
+    }
+    return loaded;
+  };
+
+  const persist = (entry: CacheEntry) => {
+    if (!persistent) return;
+    withStore(STORES.detections, "readwrite", store => store.put(entry))
+      .catch(err => console.warn("Failed to persist detection cache entry:", err));
+  };
+
+  const evict = () => {
+    if (entries.size <= maxEntries) return;
+    const oldest = [...entries.values()].sort((a, b) => a.lastAccessed - b.lastAccessed);
+    for (const entry of oldest.slice(0, entries.size - maxEntries)) {
+      entries.delete(entry.key);
+      if (persistent) {
+        withStore(STORES.detections, "readwrite", store => store.delete(entry.key)).catch(() => {});
+      }
+    }
+  };
+
+  const touch = (entry: CacheEntry) => {
+    entry.lastAccessed = Date.now();
+    persist(entry);
+    return entry.response;
+  };
+
+  return {
+    get: async (frame) => {
+      await load();
+      const exact = entries.get(keyFor(frame.videoId, bucketFor(frame.timestamp)));
+      if (exact) return touch(exact);
+
+      if (!frame.frameHash) return null;
+      for (const entry of entries.values()) {
+        if (
+          entry.videoId === frame.videoId &&
+          entry.frameHash &&
+          hammingDistance(entry.frameHash, frame.frameHash) <= MAX_HASH_DISTANCE
+        ) {
+          return touch(entry);
+        }
+      }
+      return null;
+    },
+
+    set: async (frame, response) => {
+      await load();
+      const bucket = bucketFor(frame.timestamp);
+      const entry: CacheEntry = {
+        key: keyFor(frame.videoId, bucket),
+        videoId: frame.videoId,
+        bucket,
+        frameHash: frame.frameHash,
+        response,
+        lastAccessed: Date.now(),
+      };
+      entries.set(entry.key, entry);
+      persist(entry);
+      evict();
+    },
+
+    clear: async () => {
+      entries.clear();
+      if (persistent) {
+        await withStore(STORES.detections, "readwrite", store => store.clear());
+      }
+    },
+  };
+}
+
+export interface DetectionCacheOptions {
+  /** Called when a detection is answered from the cache, e.g. to report it. */
+  onHit?: (response: DetectionResponse, frame: FrameContext) => void;
+}
+
+export function withDetectionCache(
+  provider: DetectionProvider,
+  cache: DetectionCache,
+  { onHit }: DetectionCacheOptions = {}
+): DetectionProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    describe: provider.describe,
+    identify: provider.identify,
+    detect: async (base64Image, frame, signal) => {
+      // Keep entries from different backends apart
+      const cacheFrame = { ...frame, videoId: `${provider.name}:${frame.videoId}` };
+      const cached = await cache.get(cacheFrame);
+      throwIfAborted(signal);
+      if (cached) {
+        onHit?.(cached, frame);
+        return cached;
+      }
+
+      const response = await provider.detect(base64Image, frame, signal);
+      await cache.set(cacheFrame, response);
+      return response;
+    },
+  };
+}
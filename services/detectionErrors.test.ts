@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { DetectionError, errorKind } from "./detectionErrors";
+
+describe("errorKind", () => {
+  it.each([
+    new TypeError("Failed to fetch"),
+    new TypeError("fetch failed"),
+    new TypeError("Load failed"),
+    new TypeError("NetworkError when attempting to fetch resource."),
+    new TypeError("terminated", { cause: { code: "ECONNRESET" } }),
+  ])("treats the fetch failure %s as network", error => {
+    expect(errorKind(error)).toBe("network");
+  });
+
+  it("leaves programming errors as unknown, which isn't retried", () => {
+    const error = new TypeError("Cannot read properties of undefined (reading 'products')");
+
+    expect(errorKind(error)).toBe("unknown");
+    expect(new DetectionError(errorKind(error), error.message).transient).toBe(false);
+  });
+
+  it("still maps 5xx responses to network", () => {
+    expect(errorKind(Object.assign(new Error("Internal error"), { status: 503 }))).toBe("network");
+  });
+});
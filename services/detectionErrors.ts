@@ -0,0 +1,100 @@
+import { isAbortError } from "./cancellation";
+
+export type DetectionErrorKind =
+  | "auth"
+  | "quota"
+  | "network"
+  | "timeout"
+  | "safety"
+  | "invalid-json"
+  | "cors"
+  | "unavailable"
+  | "unknown";
+
+// Worth another attempt after a pause; the rest fail the same way every time
+const TRANSIENT_KINDS: DetectionErrorKind[] = ["quota", "network", "timeout", "invalid-json"];
+
+export class DetectionError extends Error {
+  readonly kind: DetectionErrorKind;
+  /** Server-suggested wait before retrying, when one was given. */
+  readonly retryAfterMs?: number;
+
+  constructor(kind: DetectionErrorKind, message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = "DetectionError";
+    this.kind = kind;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+export const isDetectionError = (error: unknown): error is DetectionError => error instanceof DetectionError;
+
+const parseRetryAfter = (message: string): number | undefined => {
+  // Quota errors carry e.g. `"retryDelay": "17s"` or "Please retry in 17.2s"
+  const match = /retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"|retry in (\d+(?:\.\d+)?)\s*s/i.exec(message);
+  if (!match) return undefined;
+  return Math.ceil(Number(match[1] || match[2]) * 1000);
+};
+
+// What fetch rejects with when the request never got a response, per engine
+const FETCH_FAILURE_MESSAGE = /^(failed to fetch|fetch failed|load failed|networkerror when attempting to fetch resource)/i;
+const NETWORK_CODES = new Set(["ECONNREFUSED", "ECONNRESET", "ENOTFOUND", "EAI_AGAIN", "ETIMEDOUT", "EPIPE", "UND_ERR_SOCKET"]);
+
+/**
+ * True for the TypeError fetch throws on a connection failure. Other
+ * TypeErrors are bugs (e.g. reading a property of undefined) and must not
+ * be retried as network trouble.
+ */
+const isFetchFailure = (error: TypeError) => {
+  const code = (error.cause as { code?: unknown } | undefined)?.code;
+  return FETCH_FAILURE_MESSAGE.test(error.message) || (typeof code === "string" && NETWORK_CODES.has(code));
+};
+
+/**
+ * Maps whatever a provider, the SDK or the browser threw onto a
+ * DetectionError. Abort errors are returned untouched so callers can keep
+ * ignoring them.
+ */
+export function classifyError(error: unknown): unknown {
+  if (isDetectionError(error) || isAbortError(error)) return error;
+
+  const message = error instanceof Error ? error.message : String(error ?? "");
+  const status = typeof (error as { status?: unknown })?.status === "number" ? (error as { status: number }).status : 0;
+
+  if (error instanceof DOMException && error.name === "SecurityError") {
+    return new DetectionError("cors", "This video doesn't allow frame capture (no CORS headers).", { cause: error });
+  }
+  if (status === 401 || status === 403 || /API[_ ]?KEY|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new DetectionError("auth", "The API key was rejected or is missing.", { cause: error });
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new DetectionError("quota", "The detection service is rate limiting requests.", {
+      cause: error,
+      retryAfterMs: parseRetryAfter(message),
+    });
+  }
+  const networkFailure = error instanceof TypeError
+    ? isFetchFailure(error)
+    : /failed to fetch|network|ECONNRESET|UNAVAILABLE/i.test(message);
+  if (status >= 500 || networkFailure) {
+    return new DetectionError("network", "The detection service could not be reached.", { cause: error });
+  }
+  if (/SAFETY|blocked/i.test(message)) {
+    return new DetectionError("safety", "The model declined to analyze this frame.", { cause: error });
+  }
+  if (error instanceof SyntaxError) {
+    return new DetectionError("invalid-json", "The AI model returned malformed JSON.", { cause: error });
+  }
+  return new DetectionError("unknown", message || "An unexpected error occurred during product detection.", { cause: error });
+}
+
+/** Kind of an arbitrary error, for callers that only need to branch on it. */
+export const errorKind = (error: unknown): DetectionErrorKind => {
+  const classified = classifyError(error);
+  return isDetectionError(classified) ? classified.kind : "unknown";
+};
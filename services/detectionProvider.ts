@@ -0,0 +1,41 @@
+import { DetectionProvider } from "../types";
+import { createProxyProvider, geminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+
+export type DetectionProviderName = "gemini" | "mock";
+
+/**
+ * "proxy" sends frames to server/, which holds the key. "direct" calls
+ * Gemini from this process and needs the key in its environment.
+ */
+export type GeminiTransport = "direct" | "proxy";
+
+export interface DetectionProviderOptions {
+  /** Defaults to "proxy" unless the app build opted in with VITE_DIRECT_GEMINI. */
+  transport?: GeminiTransport;
+  /** Proxy base URL; defaults to DETECTION_PROXY_URL (same origin when unset). */
+  proxyUrl?: string;
+}
+
+const DEFAULT_TRANSPORT: GeminiTransport = process.env.DIRECT_GEMINI === "true" ? "direct" : "proxy";
+
+/**
+ * Resolves the provider configured through DETECTION_PROVIDER in the env
+ * (see vite.config.ts). Defaults to Gemini.
+ */
+export function createDetectionProvider(
+  name: string | undefined = process.env.DETECTION_PROVIDER,
+  { transport = DEFAULT_TRANSPORT, proxyUrl }: DetectionProviderOptions = {}
+): DetectionProvider {
+  const gemini = () => (transport === "direct" ? geminiProvider : createProxyProvider(proxyUrl));
+
+  switch ((name || "gemini").toLowerCase() as DetectionProviderName) {
+    case "mock":
+      return createMockProvider();
+    case "gemini":
+      return gemini();
+    default:
+      console.warn(`Unknown detection provider "${name}", falling back to Gemini.`);
+      return gemini();
+  }
+}
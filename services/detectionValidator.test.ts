@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { normalizeAttributes, normalizeBox, normalizeCurrency, validateDetections } from "./detectionValidator";
+
+describe("normalizeCurrency", () => {
+  it("accepts ISO 4217 codes in any case", () => {
+    expect(normalizeCurrency("eur")).toBe("EUR");
+    expect(normalizeCurrency(" GBP ")).toBe("GBP");
+  });
+
+  it.each(["$", "US DOLLARS", "usd$", "", "unknown", 840, null])("rejects %j", raw => {
+    expect(normalizeCurrency(raw)).toBeUndefined();
+  });
+});
+
+describe("normalizeAttributes", () => {
+  it("falls back to USD for a currency Intl can't format", () => {
+    const attributes = normalizeAttributes({ priceRange: { min: 40, max: 20, currency: "US DOLLARS" } });
+
+    expect(attributes?.priceRange).toEqual({ min: 20, max: 40, currency: "USD" });
+    expect(() => new Intl.NumberFormat("en", { style: "currency", currency: attributes!.priceRange!.currency })).not.toThrow();
+  });
+});
+
+describe("normalizeBox", () => {
+  it("clamps coordinates to 0-1000", () => {
+    expect(normalizeBox([-50, 200, 1200, "800"])).toEqual({ ymin: 0, xmin: 200, ymax: 1000, xmax: 800 });
+  });
+
+  it("swaps inverted edges", () => {
+    expect(normalizeBox({ ymin: 600, xmin: 700, ymax: 100, xmax: 300 })).toEqual({ ymin: 100, xmin: 300, ymax: 600, xmax: 700 });
+  });
+
+  it.each([
+    [[100, 100, 104, 500]],
+    [[100, 100, 500, 100]],
+    [[1100, 100, 1500, 500]],
+  ])("drops %j as too small to click", raw => {
+    expect(normalizeBox(raw)).toBe("box is degenerate after clamping");
+  });
+
+  it.each([
+    [undefined, "box is missing"],
+    [[100, 100, 500], "box has 3 coordinates, expected 4"],
+    [[100, "left", 500, 500], "box contains non-numeric coordinates"],
+  ])("explains why %j is unusable", (raw, reason) => {
+    expect(normalizeBox(raw)).toBe(reason);
+  });
+});
+
+describe("validateDetections", () => {
+  const item = (overrides: Record<string, unknown> = {}) => ({
+    name: "Leather Boots",
+    category: "fashion",
+    confidence: 0.9,
+    box: [100, 100, 400, 300],
+    ...overrides,
+  });
+
+  it("reads confidence given as a percentage", () => {
+    const { products } = validateDetections([item({ confidence: 85 }), item({ confidence: "0.4" }), item({ confidence: 140 })]);
+
+    expect(products.map(p => p.confidence)).toEqual([0.85, 0.4, 1]);
+  });
+
+  it("mints slug-n ids instead of trusting the model's", () => {
+    const { products } = validateDetections([
+      item({ id: "1", name: "Leather Boots!" }),
+      item({ id: "1", name: "bad", box: [0, 0, 1, 1] }),
+      item({ id: "1", name: "Wool Coat", category: "apparel" }),
+      item({ id: "1", name: "???" }),
+    ]);
+
+    expect(products.map(p => p.id)).toEqual(["leather-boots-1", "wool-coat-2", "item-3"]);
+  });
+
+  it("drops bad items with a warning and keeps the rest", () => {
+    const raw = [
+      item(),
+      "boots",
+      item({ name: "  " }),
+      item({ category: "vehicles" }),
+      item({ box: [100, 100, 102, 400] }),
+      item({ confidence: "high" }),
+    ];
+    const { products, warnings } = validateDetections(raw);
+
+    expect(products).toHaveLength(1);
+    expect(warnings.map(({ index, reason }) => ({ index, reason }))).toEqual([
+      { index: 1, reason: "invalid_item" },
+      { index: 2, reason: "missing_name" },
+      { index: 3, reason: "invalid_category" },
+      { index: 4, reason: "invalid_box" },
+      { index: 5, reason: "invalid_confidence" },
+    ]);
+    expect(warnings.every((warning, i) => warning.item === raw[i + 1])).toBe(true);
+  });
+
+  it("warns when products isn't an array but not when it's absent", () => {
+    expect(validateDetections({ name: "Boots" }).warnings).toEqual([
+      { index: -1, reason: "invalid_response", message: "'products' is not an array." },
+    ]);
+    expect(validateDetections(undefined)).toEqual({ products: [], warnings: [] });
+  });
+});
@@ -0,0 +1,233 @@
+import { BoundingBox, DetectionWarning, PriceRange, ProductAttributes, ProductCategory } from "../types";
+
+export const PRODUCT_CATEGORIES: ProductCategory[] = [
+  "fashion",
+  "electronics",
+  "home decor",
+  "beauty",
+  "accessories",
+  "furniture",
+  "food",
+];
+
+// Common variants the model returns instead of the requested categories
+const CATEGORY_ALIASES: Record<string, ProductCategory> = {
+  "clothing": "fashion",
+  "apparel": "fashion",
+  "shoe": "fashion",
+  "shoes": "fashion",
+  "footwear": "fashion",
+  "electronic": "electronics",
+  "tech": "electronics",
+  "gadget": "electronics",
+  "gadgets": "electronics",
+  "home": "home decor",
+  "decor": "home decor",
+  "home goods": "home decor",
+  "kitchen": "home decor",
+  "cosmetics": "beauty",
+  "makeup": "beauty",
+  "skincare": "beauty",
+  "jewelry": "accessories",
+  "jewellery": "accessories",
+  "bags": "accessories",
+  "watches": "accessories",
+  "groceries": "food",
+  "beverage": "food",
+  "beverages": "food",
+  "drink": "food",
+  "drinks": "food",
+};
+
+const BOX_SCALE = 1000;
+// Boxes smaller than this on either axis are too small to click
+const MIN_BOX_SIZE = 5;
+
+export interface ValidatedProduct {
+  id: string;
+  name: string;
+  category: ProductCategory;
+  confidence: number;
+  box: BoundingBox;
+  attributes?: ProductAttributes;
+}
+
+export interface ValidationResult {
+  products: ValidatedProduct[];
+  warnings: DetectionWarning[];
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function normalizeCategory(raw: unknown): ProductCategory | null {
+  if (typeof raw !== "string") return null;
+  const key = raw.trim().toLowerCase().replace(/[_-]+/g, " ").replace(/\s+/g, " ");
+  if (!key) return null;
+
+  if ((PRODUCT_CATEGORIES as string[]).includes(key)) return key as ProductCategory;
+  if (CATEGORY_ALIASES[key]) return CATEGORY_ALIASES[key];
+
+  // Fall back to a partial match, e.g. "consumer electronics" or "home & decor"
+  const partial = PRODUCT_CATEGORIES.find(c => key.includes(c))
+    || Object.keys(CATEGORY_ALIASES).find(alias => key.split(" ").includes(alias));
+  if (!partial) return null;
+  return (PRODUCT_CATEGORIES as string[]).includes(partial)
+    ? partial as ProductCategory
+    : CATEGORY_ALIASES[partial];
+}
+
+/**
+ * Accepts either the [ymin, xmin, ymax, xmax] array from the schema or an
+ * already-shaped box, clamps it to 0-1000 and fixes inverted edges.
+ * Returns a reason string when the box can't be used.
+ */
+export function normalizeBox(raw: unknown): BoundingBox | string {
+  let values: unknown[];
+  if (Array.isArray(raw)) {
+    values = raw;
+  } else if (raw && typeof raw === "object") {
+    const b = raw as Record<string, unknown>;
+    values = [b.ymin, b.xmin, b.ymax, b.xmax];
+  } else {
+    return "box is missing";
+  }
+
+  if (values.length !== 4) return `box has ${values.length} coordinates, expected 4`;
+  const coords = values.map(v => (typeof v === "string" ? parseFloat(v) : v));
+  if (!coords.every((v): v is number => typeof v === "number" && Number.isFinite(v))) {
+    return "box contains non-numeric coordinates";
+  }
+
+  const [y1, x1, y2, x2] = coords.map(v => clamp(v, 0, BOX_SCALE));
+  const box: BoundingBox = {
+    ymin: Math.min(y1, y2),
+    xmin: Math.min(x1, x2),
+    ymax: Math.max(y1, y2),
+    xmax: Math.max(x1, x2),
+  };
+
+  if (box.ymax - box.ymin < MIN_BOX_SIZE || box.xmax - box.xmin < MIN_BOX_SIZE) {
+    return "box is degenerate after clamping";
+  }
+  return box;
+}
+
+const cleanString = (value: unknown): string | undefined => {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  // The model fills unknown fields with placeholders instead of omitting them
+  return trimmed && !/^(unknown|n\/a|none|null)$/i.test(trimmed) ? trimmed : undefined;
+};
+
+// ISO 4217; anything else (e.g. "$" or "US DOLLARS") makes Intl.NumberFormat throw
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+/** Uppercased ISO 4217 code, or undefined when `raw` isn't one. */
+export const normalizeCurrency = (raw: unknown): string | undefined => {
+  const code = cleanString(raw)?.toUpperCase();
+  return code && CURRENCY_CODE.test(code) ? code : undefined;
+};
+
+const normalizePriceRange = (raw: unknown): PriceRange | undefined => {
+  if (!raw || typeof raw !== "object") return undefined;
+  const r = raw as Record<string, unknown>;
+  const min = typeof r.min === "string" ? parseFloat(r.min) : r.min;
+  const max = typeof r.max === "string" ? parseFloat(r.max) : r.max;
+  if (typeof min !== "number" || typeof max !== "number" || !Number.isFinite(min) || !Number.isFinite(max)) {
+    return undefined;
+  }
+  if (min < 0 || max < 0) return undefined;
+  return {
+    min: Math.min(min, max),
+    max: Math.max(min, max),
+    currency: normalizeCurrency(r.currency) || "USD",
+  };
+};
+
+/**
+ * Picks the optional descriptive fields off a raw model item. Invalid
+ * values are dropped silently since none of them are required.
+ */
+export function normalizeAttributes(raw: Record<string, unknown>): ProductAttributes | undefined {
+  const styleKeywords = Array.isArray(raw.styleKeywords)
+    ? raw.styleKeywords.map(cleanString).filter((k): k is string => !!k).slice(0, 8)
+    : [];
+
+  const attributes: ProductAttributes = {
+    brand: cleanString(raw.brand),
+    color: cleanString(raw.color),
+    material: cleanString(raw.material),
+    styleKeywords: styleKeywords.length > 0 ? styleKeywords : undefined,
+    priceRange: normalizePriceRange(raw.priceRange),
+  };
+  const hasAny = Object.values(attributes).some(v => v !== undefined);
+  return hasAny ? attributes : undefined;
+}
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 32) || "item";
+
+/**
+ * Validates the raw `products` array returned by the model item by item.
+ * Bad items are dropped and reported as warnings so one malformed entry
+ * doesn't cost the whole frame.
+ */
+export function validateDetections(raw: unknown): ValidationResult {
+  const warnings: DetectionWarning[] = [];
+  const products: ValidatedProduct[] = [];
+
+  if (!Array.isArray(raw)) {
+    if (raw !== undefined) {
+      warnings.push({ index: -1, reason: "invalid_response", message: "'products' is not an array." });
+    }
+    return { products, warnings };
+  }
+
+  raw.forEach((item, index) => {
+    const reject = (reason: DetectionWarning["reason"], message: string) =>
+      warnings.push({ index, reason, message, item });
+
+    if (!item || typeof item !== "object") {
+      reject("invalid_item", "Item is not an object.");
+      return;
+    }
+    const p = item as Record<string, unknown>;
+
+    const name = typeof p.name === "string" ? p.name.trim() : "";
+    if (!name) {
+      reject("missing_name", "Item has no product name.");
+      return;
+    }
+
+    const category = normalizeCategory(p.category);
+    if (!category) {
+      reject("invalid_category", `Category "${String(p.category)}" is not one of the supported categories.`);
+      return;
+    }
+
+    const box = normalizeBox(p.box);
+    if (typeof box === "string") {
+      reject("invalid_box", `"${name}": ${box}.`);
+      return;
+    }
+
+    const confidence = typeof p.confidence === "string" ? parseFloat(p.confidence) : p.confidence;
+    if (typeof confidence !== "number" || !Number.isFinite(confidence)) {
+      reject("invalid_confidence", `"${name}": confidence is not a number.`);
+      return;
+    }
+
+    products.push({
+      // Model ids are frequently duplicated ("1", "product") so always mint our own
+      id: `${slugify(name)}-${products.length + 1}`,
+      name,
+      category,
+      // Some responses use a 0-100 scale despite the instructions
+      confidence: clamp(confidence > 1 ? confidence / 100 : confidence, 0, 1),
+      box,
+      attributes: normalizeAttributes(p),
+    });
+  });
+
+  return { products, warnings };
+}
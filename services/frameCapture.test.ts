@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFramePreprocessor } from "./frameCapture";
+import { preprocessFrame } from "./framePreprocess";
+
+vi.mock("./framePreprocess", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./framePreprocess")>()),
+  preprocessFrame: vi.fn(async () => ({
+    base64: "main-thread",
+    mimeType: "image/jpeg",
+    crop: { ymin: 0, xmin: 0, ymax: 1000, xmax: 1000 },
+  })),
+}));
+
+type WorkerBehaviour = "throw" | "fail-to-load" | "silent";
+
+let behaviour: WorkerBehaviour;
+let workersCreated = 0;
+
+class FakeWorker {
+  onmessage: ((event: unknown) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  terminated = false;
+
+  constructor() {
+    workersCreated++;
+    if (behaviour === "throw") throw new DOMException("Script at a cross-origin URL", "SecurityError");
+  }
+
+  postMessage() {
+    if (behaviour === "fail-to-load") setTimeout(() => this.onerror?.({ message: "404" }), 0);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const video = { videoWidth: 640, videoHeight: 360 } as HTMLVideoElement;
+
+beforeEach(() => {
+  workersCreated = 0;
+  vi.mocked(preprocessFrame).mockClear();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.stubGlobal("Worker", FakeWorker);
+  vi.stubGlobal("OffscreenCanvas", class {});
+  vi.stubGlobal("createImageBitmap", async () => ({ close: () => {} }));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("createFramePreprocessor", () => {
+  it("falls back to the main thread when the worker can't be created", async () => {
+    behaviour = "throw";
+    const preprocessor = createFramePreprocessor();
+
+    await expect(preprocessor.process(video)).resolves.toMatchObject({ base64: "main-thread" });
+    await preprocessor.process(video);
+    expect(workersCreated).toBe(1);
+  });
+
+  it("redoes pending frames on the main thread when the worker fails to load", async () => {
+    behaviour = "fail-to-load";
+    const preprocessor = createFramePreprocessor();
+
+    await expect(preprocessor.process(video)).resolves.toMatchObject({ base64: "main-thread" });
+    await preprocessor.process(video);
+    expect(workersCreated).toBe(1);
+    expect(preprocessFrame).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up on a worker that never answers", async () => {
+    behaviour = "silent";
+    vi.useFakeTimers();
+    const preprocessor = createFramePreprocessor();
+
+    const frame = preprocessor.process(video);
+    await vi.advanceTimersByTimeAsync(10_000);
+    await expect(frame).resolves.toMatchObject({ base64: "main-thread" });
+  });
+
+  it("rejects with an AbortError when the signal fires", async () => {
+    behaviour = "silent";
+    const preprocessor = createFramePreprocessor();
+    const controller = new AbortController();
+
+    const frame = preprocessor.process(video, controller.signal);
+    await Promise.resolve();
+    controller.abort();
+    await expect(frame).rejects.toMatchObject({ name: "AbortError" });
+    preprocessor.dispose();
+  });
+});
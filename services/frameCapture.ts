@@ -0,0 +1,197 @@
+import { BoundingBox } from "../types";
+import { computeFrameHash } from "./frameHash";
+import { DetectionError } from "./detectionErrors";
+import { createAbortError, throwIfAborted } from "./cancellation";
+import { DEFAULT_PREPROCESS, PreprocessOptions, PreprocessedFrame, preprocessFrame } from "./framePreprocess";
+import type { PreprocessReply, PreprocessRequest } from "./preprocessWorker";
+
+export interface CapturedFrame {
+  base64: string;
+  mimeType: string;
+  timestamp: number;
+  frameHash?: string;
+  /** Region of the original frame that was encoded, in 0-1000 coordinates. */
+  crop: BoundingBox;
+}
+
+export interface FramePreprocessor {
+  process: (video: HTMLVideoElement, signal?: AbortSignal) => Promise<PreprocessedFrame>;
+  dispose: () => void;
+}
+
+// A worker that hasn't answered by then is treated as dead
+const WORKER_TIMEOUT_MS = 10000;
+
+interface PendingRequest {
+  video: HTMLVideoElement;
+  resolve: (frame: PreprocessedFrame) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+const canUseWorker = () =>
+  typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined" && typeof createImageBitmap === "function";
+
+/**
+ * Runs frame preprocessing in a Web Worker with OffscreenCanvas so large
+ * frames don't block the UI, or on the main thread where that isn't
+ * supported. A worker that can't be created, fails to load (e.g. the embed
+ * served from a path or origin its script can't be fetched from) or stops
+ * answering is dropped for good, and its requests are redone on the main
+ * thread.
+ */
+export function createFramePreprocessor(overrides: Partial<PreprocessOptions> = {}): FramePreprocessor {
+  const options: PreprocessOptions = { ...DEFAULT_PREPROCESS, ...overrides };
+  const pending = new Map<number, PendingRequest>();
+  let worker: Worker | null = null;
+  let workerUnavailable = !canUseWorker();
+  let nextId = 0;
+
+  const onMainThread = (video: HTMLVideoElement) =>
+    preprocessFrame(video, video.videoWidth, video.videoHeight, options);
+
+  const take = (id: number) => {
+    const request = pending.get(id);
+    if (!request) return null;
+    pending.delete(id);
+    request.cleanup();
+    return request;
+  };
+
+  const abandonWorker = (reason: unknown) => {
+    console.warn("Frame preprocessing worker unavailable, using the main thread:", reason);
+    worker?.terminate();
+    worker = null;
+    workerUnavailable = true;
+    for (const id of [...pending.keys()]) {
+      const request = take(id)!;
+      onMainThread(request.video).then(request.resolve, request.reject);
+    }
+  };
+
+  const getWorker = () => {
+    if (worker || workerUnavailable) return worker;
+    try {
+      worker = new Worker(new URL("./preprocessWorker.ts", import.meta.url), { type: "module" });
+    } catch (err) {
+      // Cross-origin script URLs throw a SecurityError here; that is not a tainted frame
+      abandonWorker(err);
+      return null;
+    }
+    worker.onmessage = (event: MessageEvent<PreprocessReply>) => {
+      const reply = event.data;
+      const request = take(reply.id);
+      if (!request) return;
+      if ("frame" in reply) {
+        request.resolve(reply.frame);
+      } else {
+        // Rebuilt as a DOMException so a SecurityError still reads as a CORS failure
+        request.reject(new DOMException(reply.error.message, reply.error.name));
+      }
+    };
+    worker.onerror = (event) => abandonWorker(event.message || "the worker script failed to load");
+    return worker;
+  };
+
+  return {
+    process: async (video, signal) => {
+      throwIfAborted(signal);
+      if (!getWorker()) return onMainThread(video);
+
+      const bitmap = await createImageBitmap(video);
+      throwIfAborted(signal);
+      const activeWorker = getWorker();
+      if (!activeWorker) {
+        bitmap.close();
+        return onMainThread(video);
+      }
+
+      const id = ++nextId;
+      const request: PreprocessRequest = { id, bitmap, options };
+      return new Promise<PreprocessedFrame>((resolve, reject) => {
+        const onAbort = () => take(id)?.reject(createAbortError());
+        const timer = setTimeout(() => abandonWorker("no reply within the timeout"), WORKER_TIMEOUT_MS);
+        signal?.addEventListener("abort", onAbort, { once: true });
+        pending.set(id, {
+          video,
+          resolve,
+          reject,
+          cleanup: () => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+          },
+        });
+        activeWorker.postMessage(request, [bitmap]);
+      });
+    },
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+      for (const id of [...pending.keys()]) take(id)!.reject(createAbortError());
+    },
+  };
+}
+
+export const framePreprocessor = createFramePreprocessor();
+
+/**
+ * Grabs the video's current frame, trimmed of letterboxing, downscaled and
+ * encoded for detection. Rejects with a "cors" DetectionError when reading
+ * the frame's pixels fails because a cross-origin source tainted it.
+ */
+export async function captureVideoFrame(
+  video: HTMLVideoElement,
+  preprocessor: FramePreprocessor = framePreprocessor,
+  signal?: AbortSignal
+): Promise<CapturedFrame | null> {
+  if (video.videoWidth === 0 || video.videoHeight === 0) return null;
+  const timestamp = video.currentTime;
+  const frameHash = computeFrameHash(video) || undefined;
+
+  try {
+    const frame = await preprocessor.process(video, signal);
+    return { ...frame, timestamp, frameHash };
+  } catch (e) {
+    // Worker setup errors never reach here, so a SecurityError is a pixel read
+    if (e instanceof DOMException && e.name === "SecurityError") {
+      throw new DetectionError("cors", "Cannot capture frame due to security restrictions (CORS). Please try a local file or a CORS-enabled URL.", { cause: e });
+    }
+    throw e;
+  }
+}
+
+// Extra context around a crop helps the model recognise the item
+const CROP_PADDING = 0.08;
+
+/**
+ * Crops a box (0-1000 normalized coordinates) out of the video's current
+ * frame and returns it as base64 JPEG, or null if the frame isn't ready.
+ */
+export function cropVideoRegion(
+  video: HTMLVideoElement,
+  box: BoundingBox,
+  canvas: HTMLCanvasElement = document.createElement("canvas")
+): string | null {
+  const { videoWidth, videoHeight } = video;
+  if (videoWidth === 0 || videoHeight === 0) return null;
+
+  const padX = (box.xmax - box.xmin) * CROP_PADDING;
+  const padY = (box.ymax - box.ymin) * CROP_PADDING;
+  const x = Math.max(0, (box.xmin - padX) / 1000) * videoWidth;
+  const y = Math.max(0, (box.ymin - padY) / 1000) * videoHeight;
+  const width = Math.min(videoWidth - x, ((box.xmax - box.xmin + 2 * padX) / 1000) * videoWidth);
+  const height = Math.min(videoHeight - y, ((box.ymax - box.ymin + 2 * padY) / 1000) * videoHeight);
+  if (width < 1 || height < 1) return null;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+  ctx.drawImage(video, x, y, width, height, 0, 0, canvas.width, canvas.height);
+
+  try {
+    return canvas.toDataURL("image/jpeg", 0.9).split(",")[1];
+  } catch (e) {
+    throw new DetectionError("cors", "Cannot capture frame due to security restrictions (CORS). Please try a local file or a CORS-enabled URL.", { cause: e });
+  }
+}
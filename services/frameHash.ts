@@ -0,0 +1,60 @@
+// dHash: compare adjacent pixels of a 9x8 grayscale thumbnail -> 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+let hashCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Computes a 64-bit difference hash of the given frame as a 16 character
+ * hex string. Near-identical frames produce hashes a few bits apart.
+ */
+export function computeFrameHash(source: CanvasImageSource): string | null {
+  if (!hashCanvas) {
+    hashCanvas = document.createElement("canvas");
+    hashCanvas.width = HASH_WIDTH;
+    hashCanvas.height = HASH_HEIGHT;
+  }
+  const ctx = hashCanvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  let data: Uint8ClampedArray;
+  try {
+    data = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data;
+  } catch {
+    // Tainted by a cross-origin source
+    return null;
+  }
+
+  const gray: number[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    gray.push(data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114);
+  }
+
+  let hex = "";
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let nibble = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const bit = gray[y * HASH_WIDTH + x] > gray[y * HASH_WIDTH + x + 1] ? 1 : 0;
+      nibble = (nibble << 1) | bit;
+      if (x % 4 === 3) {
+        hex += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
@@ -0,0 +1,163 @@
+import { BoundingBox } from "../types";
+
+export type FrameEncoding = "jpeg" | "webp";
+
+export interface PreprocessOptions {
+  /** Longest side of the encoded image; larger frames are scaled down. */
+  maxDimension: number;
+  /** Trim black letterbox / pillarbox bars before encoding. */
+  cropLetterbox: boolean;
+  /** WebP is smaller at the same quality; browsers without it fall back to PNG/JPEG. */
+  format: FrameEncoding;
+  quality: number;
+}
+
+export const DEFAULT_PREPROCESS: PreprocessOptions = {
+  maxDimension: 1280,
+  cropLetterbox: true,
+  format: "jpeg",
+  quality: 0.8,
+};
+
+export interface PreprocessedFrame {
+  base64: string;
+  mimeType: string;
+  /** Part of the original frame the image shows, in 0-1000 coordinates. */
+  crop: BoundingBox;
+}
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+type AnyContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+export const FULL_FRAME: BoundingBox = { ymin: 0, xmin: 0, ymax: 1000, xmax: 1000 };
+
+const BOX_SCALE = 1000;
+// Letterbox detection runs on a thumbnail this wide
+const PROBE_WIDTH = 160;
+// Brightest pixel a bar row/column may contain; compression noise keeps bars from being pure black
+const BAR_MAX_LUMA = 28;
+// Ignore slivers, and never crop away most of the frame (that's a dark scene, not bars)
+const MIN_BAR_FRACTION = 0.02;
+const MIN_CONTENT_FRACTION = 0.5;
+
+const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(width, height);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const context2d = (canvas: AnyCanvas): AnyContext => {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true }) as AnyContext | null;
+  if (!ctx) throw new Error("2D canvas is not available.");
+  return ctx;
+};
+
+const isBarLine = (data: Uint8ClampedArray, start: number, step: number, count: number) => {
+  for (let i = 0, offset = start; i < count; i++, offset += step) {
+    const luma = data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+    if (luma > BAR_MAX_LUMA) return false;
+  }
+  return true;
+};
+
+/**
+ * Finds black bars around the picture and returns the content area in
+ * 0-1000 coordinates, or the full frame when there are none.
+ */
+export function detectLetterbox(source: CanvasImageSource, width: number, height: number): BoundingBox {
+  const probeWidth = Math.min(PROBE_WIDTH, width);
+  const probeHeight = Math.max(1, Math.round((height / width) * probeWidth));
+  const ctx = context2d(createCanvas(probeWidth, probeHeight));
+  ctx.drawImage(source, 0, 0, probeWidth, probeHeight);
+  const { data } = ctx.getImageData(0, 0, probeWidth, probeHeight);
+
+  const rowIsBar = (y: number) => isBarLine(data, y * probeWidth * 4, 4, probeWidth);
+  const columnIsBar = (x: number) => isBarLine(data, x * 4, probeWidth * 4, probeHeight);
+
+  let top = 0;
+  while (top < probeHeight && rowIsBar(top)) top++;
+  let bottom = probeHeight;
+  while (bottom > top && rowIsBar(bottom - 1)) bottom--;
+  let left = 0;
+  while (left < probeWidth && columnIsBar(left)) left++;
+  let right = probeWidth;
+  while (right > left && columnIsBar(right - 1)) right--;
+
+  const trim = (start: number, end: number, size: number): [number, number] => {
+    const content = end - start;
+    if (content < size * MIN_CONTENT_FRACTION) return [0, size];
+    // Keep one probe pixel of margin so downscaling blur doesn't clip the picture
+    const from = start >= size * MIN_BAR_FRACTION ? Math.max(0, start - 1) : 0;
+    const to = size - end >= size * MIN_BAR_FRACTION ? Math.min(size, end + 1) : size;
+    return [from, to];
+  };
+
+  const [y0, y1] = trim(top, bottom, probeHeight);
+  const [x0, x1] = trim(left, right, probeWidth);
+  return {
+    ymin: Math.round((y0 / probeHeight) * BOX_SCALE),
+    xmin: Math.round((x0 / probeWidth) * BOX_SCALE),
+    ymax: Math.round((y1 / probeHeight) * BOX_SCALE),
+    xmax: Math.round((x1 / probeWidth) * BOX_SCALE),
+  };
+}
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  // Chunked so large frames don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const encodeCanvas = async (canvas: AnyCanvas, format: FrameEncoding, quality: number) => {
+  const type = `image/${format}`;
+  if ("convertToBlob" in canvas) {
+    const blob = await canvas.convertToBlob({ type, quality });
+    return { base64: bytesToBase64(new Uint8Array(await blob.arrayBuffer())), mimeType: blob.type || type };
+  }
+  const dataUrl = canvas.toDataURL(type, quality);
+  const mimeType = /^data:([^;,]+)/.exec(dataUrl)?.[1] || type;
+  return { base64: dataUrl.split(",")[1], mimeType };
+};
+
+/**
+ * Crops letterboxing, downscales to `maxDimension` and encodes the frame.
+ * Works on the main thread and inside a worker (with OffscreenCanvas).
+ * Throws a SecurityError for cross-origin frames.
+ */
+export async function preprocessFrame(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  options: PreprocessOptions = DEFAULT_PREPROCESS
+): Promise<PreprocessedFrame> {
+  const crop = options.cropLetterbox ? detectLetterbox(source, width, height) : FULL_FRAME;
+  const sx = (crop.xmin / BOX_SCALE) * width;
+  const sy = (crop.ymin / BOX_SCALE) * height;
+  const sw = ((crop.xmax - crop.xmin) / BOX_SCALE) * width;
+  const sh = ((crop.ymax - crop.ymin) / BOX_SCALE) * height;
+
+  const scale = Math.min(1, options.maxDimension / Math.max(sw, sh));
+  const canvas = createCanvas(Math.max(1, Math.round(sw * scale)), Math.max(1, Math.round(sh * scale)));
+  const ctx = context2d(canvas);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  return { ...(await encodeCanvas(canvas, options.format, options.quality)), crop };
+}
+
+/** Maps a box detected on a cropped image back onto the full frame. */
+export function mapBoxToFrame(box: BoundingBox, crop: BoundingBox = FULL_FRAME): BoundingBox {
+  const scaleY = (crop.ymax - crop.ymin) / BOX_SCALE;
+  const scaleX = (crop.xmax - crop.xmin) / BOX_SCALE;
+  return {
+    ymin: crop.ymin + box.ymin * scaleY,
+    xmin: crop.xmin + box.xmin * scaleX,
+    ymax: crop.ymin + box.ymax * scaleY,
+    xmax: crop.xmin + box.xmax * scaleX,
+  };
+}
@@ -1,16 +1,40 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { DetectionResponse } from "../types";
+import { GenerateContentResponse, GoogleGenAI, Part, Schema, Type } from "@google/genai";
+import {
+  DescribeRequest,
+  DetectRequest,
+  DetectedProduct,
+  DetectionProvider,
+  DetectionResponse,
+  FrameContext,
+  IdentifyRequest,
+  IdentifyResponse,
+  ProductDescription,
+  RegionIdentification,
+} from "../types";
+import { normalizeAttributes, normalizeCategory, validateDetections } from "./detectionValidator";
+import { attachRetailerLinks } from "./retailerRegistry";
+import { isAbortError, throwIfAborted } from "./cancellation";
+import { DetectionError, DetectionErrorKind, classifyError } from "./detectionErrors";
+import { createCircuitBreaker, withRetry, withTimeout } from "./resilience";
+import { mapBoxToFrame } from "./framePreprocess";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created lazily so that importing this module never requires a key. Only
+// the proxy server (and app builds opted in with VITE_DIRECT_GEMINI) have one.
+let ai: GoogleGenAI | null = null;
 
-const SEARCH_BASE_URLS: Record<string, string> = {
-  "fashion": "https://www.amazon.com/s?k=",
-  "shoe": "https://www.nike.com/w?q=",
-  "electronics": "https://www.bestbuy.com/site/searchpage.jsp?st=",
-  "default": "https://www.google.com/search?q=buy+"
+const getClient = (): GoogleGenAI => {
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return ai;
 };
 
+export const GEMINI_MODEL = "gemini-3-flash-preview";
+
+// Base URL of the proxy in server/; empty means same origin
+const DEFAULT_PROXY_URL = process.env.DETECTION_PROXY_URL || "";
+
 const SYSTEM_INSTRUCTION = `
 You are a high-performance computer vision expert specializing in retail and e-commerce.
 Your task is to detect and identify commercial products in the provided image frame.
@@ -19,82 +43,249 @@ For each product found:
 2. Identify a category (fashion, electronics, home decor, beauty, accessories, furniture, food).
 3. Provide normalized bounding box coordinates [ymin, xmin, ymax, xmax] between 0 and 1000.
 4. Confidence score (0.0 to 1.0).
+5. Where visible or reasonably inferable: brand, color, material, a few style keywords and an estimated retail price range in USD.
 
 Return ONLY a JSON object.
 `;
 
-export async function detectProducts(base64Image: string): Promise<DetectionResponse> {
+const ATTRIBUTE_PROPERTIES = {
+  brand: { type: Type.STRING },
+  color: { type: Type.STRING },
+  material: { type: Type.STRING },
+  styleKeywords: { type: Type.ARRAY, items: { type: Type.STRING } },
+  priceRange: {
+    type: Type.OBJECT,
+    properties: {
+      min: { type: Type.NUMBER },
+      max: { type: Type.NUMBER },
+      currency: { type: Type.STRING }
+    }
+  }
+};
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+// Shared by every call so that one failing backend pauses all of them
+const breaker = createCircuitBreaker();
+
+const readJson = (response: GenerateContentResponse): any => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === "SAFETY" || finishReason === "PROHIBITED_CONTENT") {
+    throw new DetectionError("safety", "The model declined to analyze this frame for safety reasons.");
+  }
+
+  const text = response.text;
+  if (!text) throw new DetectionError("invalid-json", "The AI model returned an empty response.");
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: [
-        {
-          parts: [
-            { text: "Detect all visible products that could be purchased. Return JSON with 'products' array containing: {id, name, category, box: [ymin, xmin, ymax, xmax], confidence}." },
-            { inlineData: { mimeType: "image/jpeg", data: base64Image } }
-          ]
-        }
-      ],
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new DetectionError("invalid-json", "The AI model returned malformed JSON.", { cause: error });
+  }
+};
+
+/**
+ * Runs one backend call with a per-attempt timeout, retries for transient
+ * failures and the shared circuit breaker. Always rejects with a
+ * DetectionError (or an AbortError when `signal` fires).
+ */
+async function callResiliently<T>(task: (attemptSignal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  try {
+    return await breaker.execute(() =>
+      withRetry(async () => {
+        const result = await withTimeout(task, REQUEST_TIMEOUT_MS, signal);
+        throwIfAborted(signal);
+        return result;
+      }, signal)
+    );
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw error;
+    const classified = classifyError(error);
+    console.error("Gemini Error:", classified);
+    throw classified;
+  }
+}
+
+const generateJson = (parts: Part[], responseSchema: Schema, signal?: AbortSignal): Promise<any> =>
+  callResiliently(async attemptSignal => readJson(await getClient().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: [{ parts }],
+    config: {
+      abortSignal: attemptSignal,
+      systemInstruction: SYSTEM_INSTRUCTION,
+      responseMimeType: "application/json",
+      responseSchema,
+    },
+  })), signal);
+
+const KNOWN_KINDS: DetectionErrorKind[] = [
+  "auth", "quota", "network", "timeout", "safety", "invalid-json", "cors", "unavailable", "unknown",
+];
+
+const proxyError = async (response: Response): Promise<DetectionError> => {
+  const retryAfter = Number(response.headers.get("Retry-After"));
+  const body = await response.json().catch(() => null);
+  const kind = KNOWN_KINDS.find(k => k === body?.error?.kind) || (response.status >= 500 ? "network" : "unknown");
+  return new DetectionError(kind, body?.error?.message || `Detection proxy responded with ${response.status}.`, {
+    retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+  });
+};
+
+const postToProxy = <T>(url: string, body: unknown, signal?: AbortSignal): Promise<T> =>
+  callResiliently(async attemptSignal => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: attemptSignal,
+    });
+    if (!response.ok) throw await proxyError(response);
+
+    const result = await response.json().catch(() => null);
+    if (!result || typeof result !== "object") {
+      throw new DetectionError("invalid-json", "The detection proxy returned malformed JSON.");
+    }
+    return result as T;
+  }, signal);
+
+/**
+ * Client side of server/: the proxy holds the key, validates and calls the
+ * model, so the browser bundle never needs it.
+ */
+export function createProxyProvider(baseUrl: string = DEFAULT_PROXY_URL): DetectionProvider {
+  return {
+    name: "gemini",
+    model: GEMINI_MODEL,
+    detect: async (base64Image, frame, signal) => {
+      const body: DetectRequest = { image: base64Image, frame };
+      const result = await postToProxy<DetectionResponse>(`${baseUrl}/api/detect`, body, signal);
+      if (!Array.isArray(result.products)) {
+        throw new DetectionError("invalid-json", "The detection proxy returned malformed JSON.");
+      }
+      // The proxy already validated; links are resolved again for the viewer's own region
+      return { ...result, products: result.products.map(p => attachRetailerLinks(p)) };
+    },
+    describe: async (cropBase64, product, signal) => {
+      const body: DescribeRequest = { image: cropBase64, product: { name: product.name, category: product.category } };
+      const result = await postToProxy<ProductDescription>(`${baseUrl}/api/describe`, body, signal);
+      if (typeof result.name !== "string") {
+        throw new DetectionError("invalid-json", "The detection proxy returned malformed JSON.");
+      }
+      return result;
+    },
+    identify: async (cropBase64, region, frame, signal) => {
+      const body: IdentifyRequest = { image: cropBase64, region, frame };
+      const result = await postToProxy<IdentifyResponse>(`${baseUrl}/api/identify`, body, signal);
+      return result.identification ?? null;
+    },
+  };
+}
+
+export async function detectProducts(
+  base64Image: string,
+  signal?: AbortSignal,
+  frame: Pick<FrameContext, "mimeType" | "crop"> = {}
+): Promise<DetectionResponse> {
+  const result = await generateJson([
+    { text: "Detect all visible products that could be purchased. Return JSON with 'products' array containing: {id, name, category, box: [ymin, xmin, ymax, xmax], confidence, brand, color, material, styleKeywords, priceRange}." },
+    { inlineData: { mimeType: frame.mimeType || "image/jpeg", data: base64Image } }
+  ], {
+    type: Type.OBJECT,
+    properties: {
+      products: {
+        type: Type.ARRAY,
+        items: {
           type: Type.OBJECT,
           properties: {
-            products: {
+            id: { type: Type.STRING },
+            name: { type: Type.STRING },
+            category: { type: Type.STRING },
+            box: {
               type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  name: { type: Type.STRING },
-                  category: { type: Type.STRING },
-                  box: {
-                    type: Type.ARRAY,
-                    items: { type: Type.NUMBER },
-                    minItems: 4,
-                    maxItems: 4,
-                  },
-                  confidence: { type: Type.NUMBER }
-                },
-                required: ["id", "name", "category", "box", "confidence"]
-              }
-            }
-          }
+              items: { type: Type.NUMBER },
+              minItems: "4",
+              maxItems: "4",
+            },
+            confidence: { type: Type.NUMBER },
+            ...ATTRIBUTE_PROPERTIES
+          },
+          required: ["id", "name", "category", "box", "confidence"]
         }
       }
-    });
-
-    const text = response.text;
-    if (!text) throw new Error("The AI model returned an empty response.");
-    
-    const result = JSON.parse(text);
-    
-    if (!result.products || !Array.isArray(result.products)) {
-      return { products: [] };
     }
+  }, signal);
 
-    const products = result.products.map((p: any) => {
-      const baseUrl = SEARCH_BASE_URLS[p.category.toLowerCase()] || SEARCH_BASE_URLS["default"];
-      const ymin = p.box[0];
-      const xmin = p.box[1];
-      const ymax = p.box[2];
-      const xmax = p.box[3];
-
-      return {
-        ...p,
-        box: { ymin, xmin, ymax, xmax },
-        shoppingLink: `${baseUrl}${encodeURIComponent(p.name)}`
-      };
-    });
-
-    return { products };
-  } catch (error: any) {
-    console.error("Gemini Detection Error:", error);
-    // Propagate meaningful error messages
-    if (error.message?.includes("API_KEY")) {
-      throw new Error("Invalid or missing API Key. Please check your configuration.");
-    }
-    throw new Error(error.message || "An unexpected error occurred during product detection.");
+  const { products: validated, warnings } = validateDetections(result?.products);
+  if (warnings.length > 0) {
+    console.warn(`Dropped ${warnings.length} malformed detection(s):`, warnings);
   }
+
+  // The model saw the cropped image; callers expect full-frame coordinates
+  const products = validated.map(p =>
+    attachRetailerLinks({ ...p, box: mapBoxToFrame(p.box, frame.crop), shoppingLink: "" })
+  );
+
+  return { products, warnings };
+}
+
+export async function describeProduct(
+  cropBase64: string,
+  product: DetectedProduct,
+  signal?: AbortSignal
+): Promise<ProductDescription> {
+  const result = await generateJson([
+    { text: `This is a close crop of an item previously identified as "${product.name}" (${product.category}). Identify it as specifically as possible and describe it for a shopper.` },
+    { inlineData: { mimeType: "image/jpeg", data: cropBase64 } }
+  ], {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING },
+      description: { type: Type.STRING },
+      ...ATTRIBUTE_PROPERTIES
+    },
+    required: ["name", "description"]
+  }, signal);
+
+  return {
+    ...normalizeAttributes(result || {}),
+    name: typeof result?.name === "string" && result.name.trim() ? result.name.trim() : product.name,
+    description: typeof result?.description === "string" ? result.description.trim() : "",
+  };
 }
+
+export async function identifyRegion(cropBase64: string, signal?: AbortSignal): Promise<RegionIdentification | null> {
+  const result = await generateJson([
+    { text: "A viewer selected this region of a video frame. Identify the single most prominent purchasable product in it. Return an empty name if there is none." },
+    { inlineData: { mimeType: "image/jpeg", data: cropBase64 } }
+  ], {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING },
+      category: { type: Type.STRING },
+      confidence: { type: Type.NUMBER },
+      ...ATTRIBUTE_PROPERTIES
+    },
+    required: ["name", "category", "confidence"]
+  }, signal);
+
+  const name = typeof result?.name === "string" ? result.name.trim() : "";
+  if (!name) return null;
+
+  const confidence = Number(result.confidence);
+  return {
+    name,
+    // The viewer asked for this item explicitly, so keep it even if the category is off-list
+    category: normalizeCategory(result.category) || "accessories",
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5,
+    attributes: normalizeAttributes(result),
+  };
+}
+
+/** Calls Gemini directly with the key from this process's environment. */
+export const geminiProvider: DetectionProvider = {
+  name: "gemini",
+  model: GEMINI_MODEL,
+  detect: (base64Image, frame, signal) => detectProducts(base64Image, signal, frame),
+  describe: describeProduct,
+  identify: (cropBase64, _region, _frame, signal) => identifyRegion(cropBase64, signal),
+};
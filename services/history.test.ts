@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { createHistory, pushHistory, redoHistory, replacePresent, undoHistory } from "./history";
+
+describe("history", () => {
+  it("undoes and redoes pushed steps", () => {
+    const history = pushHistory(pushHistory(createHistory(1), 2), 3);
+
+    expect(undoHistory(history).present).toBe(2);
+    expect(redoHistory(undoHistory(history)).present).toBe(3);
+  });
+
+  it("keeps only the most recent steps", () => {
+    let history = createHistory(0);
+    for (let i = 1; i <= 5; i++) history = pushHistory(history, i, 3);
+
+    expect(history.past).toEqual([2, 3, 4]);
+  });
+
+  it("drops redo steps when the present is edited after an undo", () => {
+    const undone = undoHistory(pushHistory(createHistory("a"), "b"));
+    const edited = replacePresent(undone, "a, edited");
+
+    expect(edited.future).toEqual([]);
+    expect(redoHistory(edited).present).toBe("a, edited");
+  });
+});
@@ -0,0 +1,44 @@
+const DEFAULT_LIMIT = 100;
+
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export const createHistory = <T>(present: T): History<T> => ({ past: [], present, future: [] });
+
+/** Records `next` as a new undoable step. */
+export function pushHistory<T>(history: History<T>, next: T, limit: number = DEFAULT_LIMIT): History<T> {
+  return {
+    past: [...history.past, history.present].slice(-limit),
+    present: next,
+    future: [],
+  };
+}
+
+/**
+ * Updates the current step in place, e.g. while a drag is in progress. Any
+ * redo steps are dropped: they no longer follow from the edited state.
+ */
+export function replacePresent<T>(history: History<T>, next: T): History<T> {
+  return { ...history, present: next, future: [] };
+}
+
+export function undoHistory<T>(history: History<T>): History<T> {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redoHistory<T>(history: History<T>): History<T> {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
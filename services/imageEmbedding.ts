@@ -0,0 +1,115 @@
+import { createAbortError } from "./cancellation";
+
+// Colour + shape descriptor computed locally on a canvas: a joint RGB
+// histogram (4 levels per channel) and gradient orientation histograms over a
+// 2x2 grid. Cheap, deterministic and robust to the framing differences
+// between a video crop and a catalog packshot.
+const COLOR_LEVELS = 4;
+const ORIENTATION_BINS = 8;
+const GRID = 2;
+/** Images are scaled to a square this many pixels wide before embedding. */
+export const SAMPLE_SIZE = 64;
+// Near-white and near-black pixels are mostly packshot background or shadow
+const BACKGROUND_LUMA = { min: 12, max: 243 };
+const COLOR_WEIGHT = 0.6;
+
+export const EMBEDDING_LENGTH = COLOR_LEVELS ** 3 + ORIENTATION_BINS * GRID * GRID;
+
+let sampleCanvas: HTMLCanvasElement | null = null;
+
+const normalize = (values: number[], weight: number) => {
+  const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return values.map(v => (v / norm) * Math.sqrt(weight));
+};
+
+/** Source of catalog and crop embeddings; tests swap in a Node canvas. */
+export type ImageEmbedder = (src: string, signal?: AbortSignal) => Promise<number[] | null>;
+
+/**
+ * Embeds an image as a unit-length vector; compare two with
+ * `cosineSimilarity`. Returns null when the image can't be read back
+ * (cross-origin without CORS).
+ */
+export function computeImageEmbedding(source: CanvasImageSource): number[] | null {
+  if (!sampleCanvas) {
+    sampleCanvas = document.createElement("canvas");
+    sampleCanvas.width = SAMPLE_SIZE;
+    sampleCanvas.height = SAMPLE_SIZE;
+  }
+  const ctx = sampleCanvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.clearRect(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  ctx.drawImage(source, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  try {
+    return embedPixels(ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data);
+  } catch {
+    return null;
+  }
+}
+
+/** The embedding itself, from SAMPLE_SIZE x SAMPLE_SIZE RGBA pixels. */
+export function embedPixels(data: ArrayLike<number>): number[] {
+  const color = new Array(COLOR_LEVELS ** 3).fill(0);
+  const gray = new Float32Array(SAMPLE_SIZE * SAMPLE_SIZE);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    const luma = r * 0.299 + g * 0.587 + b * 0.114;
+    gray[p] = luma;
+    if (luma < BACKGROUND_LUMA.min || luma > BACKGROUND_LUMA.max) continue;
+    const bin = (v: number) => Math.min(COLOR_LEVELS - 1, Math.floor((v / 256) * COLOR_LEVELS));
+    color[bin(r) * COLOR_LEVELS * COLOR_LEVELS + bin(g) * COLOR_LEVELS + bin(b)]++;
+  }
+
+  const shape = new Array(ORIENTATION_BINS * GRID * GRID).fill(0);
+  const cell = SAMPLE_SIZE / GRID;
+  for (let y = 1; y < SAMPLE_SIZE - 1; y++) {
+    for (let x = 1; x < SAMPLE_SIZE - 1; x++) {
+      const dx = gray[y * SAMPLE_SIZE + x + 1] - gray[y * SAMPLE_SIZE + x - 1];
+      const dy = gray[(y + 1) * SAMPLE_SIZE + x] - gray[(y - 1) * SAMPLE_SIZE + x];
+      const magnitude = Math.hypot(dx, dy);
+      if (magnitude < 8) continue;
+      // Unsigned orientation so light-on-dark and dark-on-light edges match
+      const angle = (Math.atan2(dy, dx) + Math.PI) % Math.PI;
+      const bin = Math.min(ORIENTATION_BINS - 1, Math.floor((angle / Math.PI) * ORIENTATION_BINS));
+      const region = Math.floor(y / cell) * GRID + Math.floor(x / cell);
+      shape[region * ORIENTATION_BINS + bin] += magnitude;
+    }
+  }
+
+  return [...normalize(color, COLOR_WEIGHT), ...normalize(shape, 1 - COLOR_WEIGHT)];
+}
+
+/** Both vectors are unit length, so this is just the dot product. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return Math.max(0, Math.min(1, dot));
+}
+
+/** Loads and embeds the image at `src` in the browser. */
+export const embedImageUrl: ImageEmbedder = async (src, signal) =>
+  computeImageEmbedding(await loadImage(src, signal));
+
+export function loadImage(src: string, signal?: AbortSignal): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.decoding = "async";
+    const onAbort = () => {
+      image.src = "";
+      reject(createAbortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    image.onload = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(image);
+    };
+    image.onerror = () => {
+      signal?.removeEventListener("abort", onAbort);
+      reject(new Error(`Could not load image ${src.slice(0, 80)}`));
+    };
+    image.src = src;
+  });
+}
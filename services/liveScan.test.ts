@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import {
+  LIVE_SCAN_MAX_BACKOFF_MS,
+  LIVE_SCAN_MAX_INTERVAL_MS,
+  LIVE_SCAN_MIN_INTERVAL_MS,
+  createLiveScanScheduler,
+} from "./liveScan";
+
+describe("createLiveScanScheduler", () => {
+  it("waits twice the smoothed latency, within bounds", () => {
+    const scheduler = createLiveScanScheduler();
+    expect(scheduler.nextDelay()).toBe(LIVE_SCAN_MIN_INTERVAL_MS);
+
+    scheduler.recordLatency(1500);
+    expect(scheduler.nextDelay()).toBe(3000);
+
+    scheduler.recordLatency(60_000);
+    expect(scheduler.nextDelay()).toBe(LIVE_SCAN_MAX_INTERVAL_MS);
+  });
+
+  it("backs off after failures in a row and recovers on success", () => {
+    const scheduler = createLiveScanScheduler();
+    scheduler.recordLatency(1500);
+
+    scheduler.recordFailure();
+    expect(scheduler.nextDelay()).toBe(6000);
+    scheduler.recordFailure();
+    expect(scheduler.nextDelay()).toBe(12_000);
+    for (let i = 0; i < 10; i++) scheduler.recordFailure();
+    expect(scheduler.nextDelay()).toBe(LIVE_SCAN_MAX_BACKOFF_MS);
+
+    scheduler.recordLatency(1500);
+    expect(scheduler.nextDelay()).toBe(3000);
+  });
+});
@@ -0,0 +1,74 @@
+import { DetectedProduct, TimelineEntry } from "../types";
+
+export const LIVE_SCAN_MIN_INTERVAL_MS = 1000;
+export const LIVE_SCAN_MAX_INTERVAL_MS = 8000;
+// Each failure in a row multiplies the wait, up to a minute
+const FAILURE_BACKOFF_FACTOR = 2;
+export const LIVE_SCAN_MAX_BACKOFF_MS = 60_000;
+// Leave the backend idle for at least as long as a request takes
+const LATENCY_MULTIPLIER = 2;
+const LATENCY_SMOOTHING = 0.3;
+// Frames closer than this (out of 64 bits) are treated as the same scene
+export const SCENE_CHANGE_DISTANCE = 6;
+const MAX_TIMELINE_ENTRIES = 120;
+// Entries closer together than this replace each other
+const TIMELINE_RESOLUTION_SECONDS = 0.25;
+
+export interface LiveScanScheduler {
+  nextDelay: () => number;
+  /** Records a successful request, which also ends any failure backoff. */
+  recordLatency: (ms: number) => void;
+  recordFailure: () => void;
+}
+
+/**
+ * Tracks a smoothed response latency and derives how long to wait before
+ * sampling the next frame, so slow backends are polled less often. Failed
+ * requests back off exponentially until one succeeds.
+ */
+export function createLiveScanScheduler(): LiveScanScheduler {
+  let averageLatency: number | null = null;
+  let failures = 0;
+
+  const baseDelay = () => {
+    if (averageLatency === null) return LIVE_SCAN_MIN_INTERVAL_MS;
+    return Math.min(
+      LIVE_SCAN_MAX_INTERVAL_MS,
+      Math.max(LIVE_SCAN_MIN_INTERVAL_MS, averageLatency * LATENCY_MULTIPLIER)
+    );
+  };
+
+  return {
+    nextDelay: () => Math.min(LIVE_SCAN_MAX_BACKOFF_MS, baseDelay() * FAILURE_BACKOFF_FACTOR ** failures),
+    recordLatency: (ms) => {
+      failures = 0;
+      averageLatency = averageLatency === null
+        ? ms
+        : averageLatency * (1 - LATENCY_SMOOTHING) + ms * LATENCY_SMOOTHING;
+    },
+    recordFailure: () => {
+      failures++;
+    },
+  };
+}
+
+/**
+ * Adds a sampled frame to a rolling timeline kept sorted by video time.
+ * When full, the entries furthest from the newest sample are dropped.
+ */
+export function appendTimelineEntry(
+  timeline: TimelineEntry[],
+  timestamp: number,
+  products: DetectedProduct[],
+  maxEntries: number = MAX_TIMELINE_ENTRIES
+): TimelineEntry[] {
+  const next = timeline
+    .filter(entry => Math.abs(entry.timestamp - timestamp) >= TIMELINE_RESOLUTION_SECONDS)
+    .concat({ timestamp, products });
+
+  if (next.length > maxEntries) {
+    next.sort((a, b) => Math.abs(a.timestamp - timestamp) - Math.abs(b.timestamp - timestamp));
+    next.length = maxEntries;
+  }
+  return next.sort((a, b) => a.timestamp - b.timestamp);
+}
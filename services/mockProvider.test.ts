@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { DetectedProduct } from "../types";
+import { FixtureSet, createMockProvider } from "./mockProvider";
+
+const product: DetectedProduct = {
+  id: "p1",
+  name: "Leather Boots",
+  category: "fashion",
+  confidence: 0.9,
+  box: { ymin: 100, xmin: 100, ymax: 400, xmax: 300 },
+  shoppingLink: "https://shop.example/boots",
+  retailerLinks: [{ retailerId: "shop", label: "Shop", url: "https://shop.example/boots" }],
+};
+
+const fixtures: FixtureSet = {
+  v: [
+    { timestamp: 10, response: { products: [product] } },
+    { timestamp: 20, response: { products: [] } },
+  ],
+};
+
+const detectAt = (timestamp: number, options = {}) =>
+  createMockProvider(fixtures, 0, { maxGapSeconds: 5, ...options }).detect("", { videoId: "v", timestamp });
+
+describe("createMockProvider", () => {
+  it("replays the latest recorded frame within the gap", async () => {
+    expect((await detectAt(12)).products.map(p => p.id)).toEqual(["p1"]);
+    expect((await detectAt(21)).products).toEqual([]);
+  });
+
+  it("returns nothing before the first frame or long after the last one", async () => {
+    expect((await detectAt(3)).products).toEqual([]);
+    expect((await detectAt(16)).products).toEqual([]);
+  });
+
+  it("keeps the recorded links when asked to", async () => {
+    const [replayed] = (await detectAt(10, { keepStoredLinks: true })).products;
+
+    expect(replayed.shoppingLink).toBe(product.shoppingLink);
+    expect(replayed.retailerLinks).toEqual(product.retailerLinks);
+  });
+});
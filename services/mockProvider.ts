@@ -0,0 +1,89 @@
+import { DetectionProvider, DetectionResponse, FrameContext } from "../types";
+import recordedFixtures from "../fixtures/detections.json";
+import { delay } from "./cancellation";
+import { boxIoU } from "./productTracker";
+import { attachRetailerLinks } from "./retailerRegistry";
+
+export interface DetectionFixture {
+  timestamp: number;
+  response: DetectionResponse;
+}
+
+/**
+ * Recorded responses keyed by video id. The "*" entry is used for any
+ * video without its own recording.
+ */
+export type FixtureSet = Record<string, DetectionFixture[]>;
+
+export interface MockProviderOptions {
+  /**
+   * How long after a recorded frame it still answers, in seconds; later
+   * times that weren't analyzed get no products.
+   */
+  maxGapSeconds?: number;
+  /** Return the recorded links as-is instead of rebuilding them for the current retailers. */
+  keepStoredLinks?: boolean;
+}
+
+const WILDCARD_VIDEO = "*";
+const DEFAULT_LATENCY_MS = 400;
+
+const findFixture = (fixtures: FixtureSet, frame: FrameContext, maxGapSeconds: number): DetectionFixture | undefined => {
+  const recordings = fixtures[frame.videoId] || fixtures[WILDCARD_VIDEO] || [];
+
+  // Replay the latest recording at or before the requested time, if it's recent enough
+  let match: DetectionFixture | undefined;
+  for (const fixture of recordings) {
+    if (fixture.timestamp <= frame.timestamp && (!match || fixture.timestamp > match.timestamp)) match = fixture;
+  }
+  return match && frame.timestamp - match.timestamp <= maxGapSeconds ? match : undefined;
+};
+
+export function createMockProvider(
+  fixtures: FixtureSet = recordedFixtures as FixtureSet,
+  latencyMs: number = DEFAULT_LATENCY_MS,
+  { maxGapSeconds = Infinity, keepStoredLinks = false }: MockProviderOptions = {}
+): DetectionProvider {
+  return {
+    name: "mock",
+    detect: async (_base64Image, frame, signal) => {
+      await delay(latencyMs, signal);
+
+      const fixture = findFixture(fixtures, frame, maxGapSeconds);
+      if (!fixture) return { products: [] };
+
+      // Hand out copies so callers can't mutate the recordings
+      return {
+        products: fixture.response.products.map(p => {
+          const copy = { ...p, box: { ...p.box } };
+          return keepStoredLinks ? copy : attachRetailerLinks(copy);
+        })
+      };
+    },
+    describe: async (_cropBase64, product, signal) => {
+      await delay(latencyMs, signal);
+      return {
+        ...product.attributes,
+        name: product.name,
+        description: `Recorded mock description for ${product.name} (${product.category}).`,
+      };
+    },
+    identify: async (_cropBase64, region, frame, signal) => {
+      await delay(latencyMs, signal);
+
+      // Answer with whichever recorded product overlaps the region most
+      const candidates = findFixture(fixtures, frame, maxGapSeconds)?.response.products || [];
+      const best = candidates
+        .map(p => ({ p, overlap: boxIoU(p.box, region) }))
+        .sort((a, b) => b.overlap - a.overlap)[0];
+      if (!best || best.overlap === 0) return null;
+
+      return {
+        name: best.p.name,
+        category: best.p.category,
+        confidence: best.p.confidence,
+        attributes: best.p.attributes,
+      };
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { PreprocessOptions, PreprocessedFrame, preprocessFrame } from "./framePreprocess";
+
+export interface PreprocessRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  options: PreprocessOptions;
+}
+
+export type PreprocessReply =
+  | { id: number; frame: PreprocessedFrame }
+  | { id: number; error: { name: string; message: string } };
+
+// Typed loosely: the app compiles against the DOM lib, not the worker one
+const scope = self as unknown as Worker;
+
+scope.onmessage = async (event: MessageEvent<PreprocessRequest>) => {
+  const { id, bitmap, options } = event.data;
+  let reply: PreprocessReply;
+  try {
+    reply = { id, frame: await preprocessFrame(bitmap, bitmap.width, bitmap.height, options) };
+  } catch (error: any) {
+    reply = { id, error: { name: error?.name || "Error", message: error?.message || String(error) } };
+  } finally {
+    bitmap.close();
+  }
+  scope.postMessage(reply);
+};
@@ -0,0 +1,44 @@
+import { DetectedProduct, ProductAppearance, TimelineEntry } from "../types";
+
+export const appearanceKey = (product: DetectedProduct) =>
+  `${product.category.toLowerCase()}:${product.name.trim().toLowerCase()}`;
+
+/**
+ * Collapses sampled frames into continuous product appearances. A product
+ * seen at one sample is assumed to stay on screen until the next sample,
+ * so consecutive sightings merge into a single [start, end) span.
+ */
+export function buildAppearances(entries: TimelineEntry[], duration: number): ProductAppearance[] {
+  const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+  const open = new Map<string, ProductAppearance>();
+  const appearances: ProductAppearance[] = [];
+
+  sorted.forEach((entry, i) => {
+    const end = i + 1 < sorted.length ? sorted[i + 1].timestamp : duration;
+    const seen = new Set<string>();
+
+    for (const product of entry.products) {
+      const key = appearanceKey(product);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const current = open.get(key);
+      if (current) {
+        current.end = end;
+        // Keep the most confident sighting as the representative
+        if (product.confidence > current.product.confidence) current.product = product;
+      } else {
+        const appearance = { key, product, start: entry.timestamp, end };
+        open.set(key, appearance);
+        appearances.push(appearance);
+      }
+    }
+
+    // Anything not seen in this sample has left the screen
+    for (const key of [...open.keys()]) {
+      if (!seen.has(key)) open.delete(key);
+    }
+  });
+
+  return appearances.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,156 @@
+import { BoundingBox, DetectedProduct, TrackedProduct } from "../types";
+
+// A track can only be continued by a frame this close in video time
+const MAX_TRACK_GAP_SECONDS = 8;
+const MIN_MATCH_SCORE = 0.35;
+const IOU_WEIGHT = 0.5;
+const NAME_WEIGHT = 0.35;
+const CATEGORY_WEIGHT = 0.15;
+
+interface Keyframe {
+  timestamp: number;
+  box: BoundingBox;
+}
+
+interface Track {
+  id: string;
+  product: DetectedProduct;
+  keyframes: Keyframe[];
+}
+
+export interface ProductTracker {
+  /** Matches a newly analyzed frame against existing tracks. */
+  update: (timestamp: number, products: DetectedProduct[]) => TrackedProduct[];
+  /** Moves each product's box to where its track places it at `timestamp`. */
+  interpolate: (products: TrackedProduct[], timestamp: number) => TrackedProduct[];
+  reset: () => void;
+}
+
+export function boxIoU(a: BoundingBox, b: BoundingBox): number {
+  const ix = Math.max(0, Math.min(a.xmax, b.xmax) - Math.max(a.xmin, b.xmin));
+  const iy = Math.max(0, Math.min(a.ymax, b.ymax) - Math.max(a.ymin, b.ymin));
+  const intersection = ix * iy;
+  const area = (box: BoundingBox) => (box.xmax - box.xmin) * (box.ymax - box.ymin);
+  const union = area(a) + area(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+const tokenize = (name: string) => new Set(name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+
+export function nameSimilarity(a: string, b: string): number {
+  const ta = tokenize(a);
+  const tb = tokenize(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(token => { if (tb.has(token)) shared++; });
+  return shared / (ta.size + tb.size - shared);
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const nearestKeyframe = (track: Track, timestamp: number) =>
+  track.keyframes.reduce((best, k) =>
+    Math.abs(k.timestamp - timestamp) < Math.abs(best.timestamp - timestamp) ? k : best
+  );
+
+// Sum of the spans between sightings that are close enough to count as continuous
+const screenTime = (keyframes: Keyframe[]) => {
+  let total = 0;
+  for (let i = 1; i < keyframes.length; i++) {
+    const gap = keyframes[i].timestamp - keyframes[i - 1].timestamp;
+    if (gap <= MAX_TRACK_GAP_SECONDS) total += gap;
+  }
+  return total;
+};
+
+const toTracked = (track: Track, product: DetectedProduct): TrackedProduct => ({
+  ...product,
+  id: track.id,
+  firstSeen: track.keyframes[0].timestamp,
+  lastSeen: track.keyframes[track.keyframes.length - 1].timestamp,
+  screenTime: screenTime(track.keyframes),
+});
+
+/**
+ * Gives each physical item a persistent id across analyzed frames by
+ * greedily pairing detections with tracks on box overlap, name and
+ * category similarity.
+ */
+export function createProductTracker(): ProductTracker {
+  let tracks: Track[] = [];
+  let nextId = 1;
+
+  const score = (track: Track, product: DetectedProduct, timestamp: number) => {
+    const nearest = nearestKeyframe(track, timestamp);
+    if (Math.abs(nearest.timestamp - timestamp) > MAX_TRACK_GAP_SECONDS) return 0;
+    return IOU_WEIGHT * boxIoU(nearest.box, product.box)
+      + NAME_WEIGHT * nameSimilarity(track.product.name, product.name)
+      + CATEGORY_WEIGHT * (track.product.category.toLowerCase() === product.category.toLowerCase() ? 1 : 0);
+  };
+
+  return {
+    update: (timestamp, products) => {
+      const candidates: { track: Track; index: number; score: number }[] = [];
+      for (const track of tracks) {
+        products.forEach((product, index) => {
+          const s = score(track, product, timestamp);
+          if (s >= MIN_MATCH_SCORE) candidates.push({ track, index, score: s });
+        });
+      }
+      candidates.sort((a, b) => b.score - a.score);
+
+      const assigned = new Map<number, Track>();
+      const usedTracks = new Set<Track>();
+      for (const { track, index } of candidates) {
+        if (assigned.has(index) || usedTracks.has(track)) continue;
+        assigned.set(index, track);
+        usedTracks.add(track);
+      }
+
+      return products.map((product, index) => {
+        let track = assigned.get(index);
+        if (!track) {
+          track = { id: `track-${nextId++}`, product, keyframes: [] };
+          tracks.push(track);
+        }
+        track.product = product;
+        track.keyframes = track.keyframes
+          .filter(k => k.timestamp !== timestamp)
+          .concat({ timestamp, box: product.box })
+          .sort((a, b) => a.timestamp - b.timestamp);
+        return toTracked(track, product);
+      });
+    },
+
+    interpolate: (products, timestamp) => products.map(product => {
+      const track = tracks.find(t => t.id === product.id);
+      if (!track) return product;
+
+      const after = track.keyframes.findIndex(k => k.timestamp >= timestamp);
+      // Outside the analyzed range the nearest sighting is the best guess
+      if (after <= 0) return { ...product, box: nearestKeyframe(track, timestamp).box };
+
+      const prev = track.keyframes[after - 1];
+      const next = track.keyframes[after];
+      if (next.timestamp - prev.timestamp > MAX_TRACK_GAP_SECONDS) {
+        return { ...product, box: nearestKeyframe(track, timestamp).box };
+      }
+
+      const t = (timestamp - prev.timestamp) / (next.timestamp - prev.timestamp);
+      return {
+        ...product,
+        box: {
+          ymin: lerp(prev.box.ymin, next.box.ymin, t),
+          xmin: lerp(prev.box.xmin, next.box.xmin, t),
+          ymax: lerp(prev.box.ymax, next.box.ymax, t),
+          xmax: lerp(prev.box.xmax, next.box.xmax, t),
+        },
+      };
+    }),
+
+    reset: () => {
+      tracks = [];
+      nextId = 1;
+    },
+  };
+}
@@ -0,0 +1,139 @@
+import { DetectionError, classifyError, isDetectionError } from "./detectionErrors";
+import { createAbortError, delay, isAbortError } from "./cancellation";
+
+export interface RetryOptions {
+  /** Attempts after the first one. */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY: RetryOptions = { retries: 2, baseDelayMs: 500, maxDelayMs: 8000 };
+
+/** Exponential backoff with full jitter, never shorter than a server-suggested wait. */
+export function backoffDelay(attempt: number, options: RetryOptions, retryAfterMs = 0): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.max(retryAfterMs, Math.random() * ceiling);
+}
+
+/**
+ * Runs `task`, retrying transient DetectionErrors. Anything else, and the
+ * last transient failure, is rethrown as a classified error.
+ */
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  signal?: AbortSignal,
+  options: RetryOptions = DEFAULT_RETRY
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      const classified = classifyError(error);
+      if (signal?.aborted || !isDetectionError(classified) || !classified.transient || attempt >= options.retries) {
+        throw classified;
+      }
+      const wait = backoffDelay(attempt, options, classified.retryAfterMs);
+      // No point sleeping past what the caller can use
+      if (wait > options.maxDelayMs) throw classified;
+      console.warn(`Retrying after ${classified.kind} error (attempt ${attempt + 2}) in ${Math.round(wait)}ms`);
+      await delay(wait, signal);
+    }
+  }
+}
+
+/**
+ * Gives `task` its own signal that fires after `ms` or when `signal` does.
+ * Hitting the deadline rejects with a "timeout" DetectionError.
+ */
+export async function withTimeout<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  ms: number,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) throw createAbortError();
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, ms);
+
+  try {
+    return await task(controller.signal);
+  } catch (error) {
+    if (timedOut && (isAbortError(error) || controller.signal.aborted)) {
+      throw new DetectionError("timeout", `The detection service did not respond within ${Math.round(ms / 1000)}s.`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failed calls before the circuit opens. */
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface CircuitBreaker {
+  execute: <T>(task: () => Promise<T>) => Promise<T>;
+  readonly state: "closed" | "open" | "half-open";
+  reset: () => void;
+}
+
+const DEFAULT_BREAKER: CircuitBreakerOptions = { failureThreshold: 3, cooldownMs: 30_000 };
+
+/**
+ * Fails fast with an "unavailable" DetectionError once the backend has
+ * failed `failureThreshold` times in a row, then lets a single probe call
+ * through after the cooldown. Only transient failures count; auth or safety
+ * errors say nothing about the backend's health.
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions = DEFAULT_BREAKER): CircuitBreaker {
+  let failures = 0;
+  let openedAt = 0;
+  let probing = false;
+
+  const currentState = () => {
+    if (failures < options.failureThreshold) return "closed";
+    return Date.now() - openedAt >= options.cooldownMs ? "half-open" : "open";
+  };
+
+  return {
+    get state() {
+      return currentState();
+    },
+    reset: () => {
+      failures = 0;
+      probing = false;
+    },
+    execute: async (task) => {
+      const state = currentState();
+      if (state === "open" || (state === "half-open" && probing)) {
+        const remaining = Math.max(0, options.cooldownMs - (Date.now() - openedAt));
+        throw new DetectionError("unavailable", "Detection is paused after repeated failures.", { retryAfterMs: remaining });
+      }
+
+      probing = state === "half-open";
+      try {
+        const result = await task();
+        failures = 0;
+        return result;
+      } catch (error) {
+        if (isDetectionError(error) && error.transient) {
+          failures++;
+          if (failures >= options.failureThreshold) openedAt = Date.now();
+        }
+        throw error;
+      } finally {
+        probing = false;
+      }
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PREFERENCES, parsePreferences, sortProducts } from "./resultFilters";
+
+describe("parsePreferences", () => {
+  it("keeps valid stored values", () => {
+    const stored = { minConfidence: 0.6, hiddenCategories: ["fashion"], sortBy: "name" };
+    expect(parsePreferences(stored)).toEqual(stored);
+  });
+
+  it("clamps the confidence threshold to 0-1", () => {
+    expect(parsePreferences({ minConfidence: 60 }).minConfidence).toBe(1);
+    expect(parsePreferences({ minConfidence: -1 }).minConfidence).toBe(0);
+    expect(parsePreferences({ minConfidence: "0.5" }).minConfidence).toBe(0);
+  });
+
+  it("keeps only string categories", () => {
+    expect(parsePreferences({ hiddenCategories: "fashion" }).hiddenCategories).toEqual([]);
+    expect(parsePreferences({ hiddenCategories: ["home", 3, null] }).hiddenCategories).toEqual(["home"]);
+  });
+
+  it("falls back to the default sort for an unknown key", () => {
+    const { sortBy } = parsePreferences({ sortBy: "price" });
+    expect(sortBy).toBe("confidence");
+    expect(sortProducts([], sortBy)).toEqual([]);
+  });
+
+  it.each([null, "text", 42, []])("uses the defaults for %j", raw => {
+    expect(parsePreferences(raw)).toEqual(DEFAULT_PREFERENCES);
+  });
+});
@@ -0,0 +1,89 @@
+import { DetectedProduct } from "../types";
+
+export const RESULT_SORTS = ["confidence", "size", "name"] as const;
+export type ResultSort = typeof RESULT_SORTS[number];
+
+export interface ResultPreferences {
+  /** 0-1; detections below it are hidden in the overlay and the list. */
+  minConfidence: number;
+  /** Stored as hidden rather than shown so new categories appear by default. */
+  hiddenCategories: string[];
+  sortBy: ResultSort;
+}
+
+export type ConfidenceTier = "high" | "medium" | "low";
+
+const STORAGE_KEY = "shopvision.preferences";
+
+export const DEFAULT_PREFERENCES: ResultPreferences = {
+  minConfidence: 0,
+  hiddenCategories: [],
+  sortBy: "confidence",
+};
+
+export const confidenceTier = (confidence: number): ConfidenceTier =>
+  confidence >= 0.8 ? "high" : confidence >= 0.5 ? "medium" : "low";
+
+/** Share of the frame the box covers, 0-1. */
+export const boxArea = (product: DetectedProduct) =>
+  ((product.box.xmax - product.box.xmin) * (product.box.ymax - product.box.ymin)) / 1_000_000;
+
+/** Distinct categories in display order, for building filter chips. */
+export const categoriesOf = (products: DetectedProduct[]): string[] =>
+  [...new Set(products.map(p => p.category.toLowerCase()))].sort();
+
+export function filterProducts<T extends DetectedProduct>(products: T[], preferences: ResultPreferences): T[] {
+  const hidden = new Set(preferences.hiddenCategories);
+  return products.filter(p =>
+    // Viewer-picked regions were asked for explicitly, so the threshold doesn't apply
+    (p.origin === "user" || p.confidence >= preferences.minConfidence) && !hidden.has(p.category.toLowerCase())
+  );
+}
+
+export function sortProducts<T extends DetectedProduct>(products: T[], sortBy: ResultSort): T[] {
+  const sorted = [...products];
+  switch (sortBy) {
+    case "confidence":
+      return sorted.sort((a, b) => b.confidence - a.confidence);
+    case "size":
+      return sorted.sort((a, b) => boxArea(b) - boxArea(a));
+    case "name":
+      return sorted.sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+/**
+ * Reads stored preferences field by field, so a value from an older version
+ * or a hand-edited entry falls back to its default instead of breaking the
+ * results list.
+ */
+export function parsePreferences(raw: unknown): ResultPreferences {
+  if (!raw || typeof raw !== "object") return DEFAULT_PREFERENCES;
+  const { minConfidence, hiddenCategories, sortBy } = raw as Record<string, unknown>;
+  return {
+    minConfidence: typeof minConfidence === "number" && Number.isFinite(minConfidence)
+      ? Math.min(1, Math.max(0, minConfidence))
+      : DEFAULT_PREFERENCES.minConfidence,
+    hiddenCategories: Array.isArray(hiddenCategories)
+      ? hiddenCategories.filter((c): c is string => typeof c === "string")
+      : DEFAULT_PREFERENCES.hiddenCategories,
+    sortBy: RESULT_SORTS.includes(sortBy as ResultSort) ? (sortBy as ResultSort) : DEFAULT_PREFERENCES.sortBy,
+  };
+}
+
+export function loadPreferences(): ResultPreferences {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parsePreferences(JSON.parse(stored)) : DEFAULT_PREFERENCES;
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+export function savePreferences(preferences: ResultPreferences) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (err) {
+    console.warn("Could not persist result preferences:", err);
+  }
+}
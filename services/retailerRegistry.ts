@@ -0,0 +1,87 @@
+import { DetectedProduct, RetailerLink } from "../types";
+import defaultConfig from "../config/retailers.json";
+
+export interface RetailerConfig {
+  id: string;
+  label: string;
+  /** Categories this retailer covers; "*" matches any. */
+  categories: string[];
+  /** ISO region codes the retailer serves; "*" matches any. */
+  regions: string[];
+  /** Supports {query} and {category} placeholders. */
+  urlTemplate: string;
+  /** Affiliate or tracking parameters appended to every link. */
+  params?: Record<string, string>;
+}
+
+export interface RetailerRegistryConfig {
+  defaultRegion: string;
+  trackingParams?: Record<string, string>;
+  retailers: RetailerConfig[];
+}
+
+const WILDCARD = "*";
+const MAX_LINKS = 3;
+
+const detectRegion = (fallback: string): string => {
+  if (typeof navigator === "undefined") return fallback;
+  const match = /[-_]([A-Za-z]{2})$/.exec(navigator.language || "");
+  return match ? match[1].toUpperCase() : fallback;
+};
+
+const buildUrl = (retailer: RetailerConfig, product: DetectedProduct, trackingParams: Record<string, string>) => {
+  const url = new URL(
+    retailer.urlTemplate
+      .replace("{query}", encodeURIComponent(product.name))
+      .replace("{category}", encodeURIComponent(product.category))
+  );
+  for (const [key, value] of Object.entries({ ...trackingParams, ...retailer.params })) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+};
+
+export interface RetailerRegistry {
+  resolve: (product: DetectedProduct) => RetailerLink[];
+}
+
+/**
+ * Resolves shopping links for a product from a JSON retailer config.
+ * Category-specific retailers come first, catch-all ones after.
+ */
+export function createRetailerRegistry(
+  config: RetailerRegistryConfig = defaultConfig as RetailerRegistryConfig,
+  region: string = detectRegion(config.defaultRegion)
+): RetailerRegistry {
+  const trackingParams = config.trackingParams || {};
+  const inRegion = (r: RetailerConfig) => r.regions.includes(WILDCARD) || r.regions.includes(region);
+
+  return {
+    resolve: (product) => {
+      const category = product.category.toLowerCase();
+      const specific = config.retailers.filter(r => inRegion(r) && r.categories.includes(category));
+      const general = config.retailers.filter(r => inRegion(r) && r.categories.includes(WILDCARD));
+
+      return [...specific, ...general].slice(0, MAX_LINKS).map(retailer => ({
+        retailerId: retailer.id,
+        label: retailer.label,
+        url: buildUrl(retailer, product, trackingParams),
+      }));
+    },
+  };
+}
+
+export const retailerRegistry = createRetailerRegistry();
+
+/** Fills in `retailerLinks` and points `shoppingLink` at the top retailer. */
+export function attachRetailerLinks<T extends DetectedProduct>(
+  product: T,
+  registry: RetailerRegistry = retailerRegistry
+): T {
+  const retailerLinks = registry.resolve(product);
+  return {
+    ...product,
+    retailerLinks,
+    shoppingLink: retailerLinks[0]?.url || product.shoppingLink,
+  };
+}
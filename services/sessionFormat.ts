@@ -0,0 +1,138 @@
+import { DetectedProduct, TimelineEntry } from "../types";
+import { normalizeBox } from "./detectionValidator";
+import { FixtureSet } from "./mockProvider";
+import { formatTime } from "./timeFormat";
+
+export const SESSION_FORMAT = "shopvision-session";
+export const SESSION_VERSION = 1;
+
+export interface DetectionSession {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  createdAt: string;
+  video: {
+    id: string;
+    /** Omitted for uploaded files, whose blob URLs don't outlive the tab. */
+    src?: string;
+    duration: number;
+  };
+  provider: {
+    name: string;
+    model?: string;
+  };
+  frames: TimelineEntry[];
+}
+
+export interface SessionInput {
+  videoId: string;
+  videoSrc: string;
+  duration: number;
+  provider: { name: string; model?: string };
+  frames: TimelineEntry[];
+}
+
+export function createSession({ videoId, videoSrc, duration, provider, frames }: SessionInput): DetectionSession {
+  // Later samples at the same timestamp win
+  const byTime = new Map<number, TimelineEntry>();
+  frames.forEach(frame => byTime.set(frame.timestamp, frame));
+
+  return {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    createdAt: new Date().toISOString(),
+    video: {
+      id: videoId,
+      src: videoSrc.startsWith("blob:") ? undefined : videoSrc,
+      duration,
+    },
+    provider: { name: provider.name, model: provider.model },
+    frames: [...byTime.values()].sort((a, b) => a.timestamp - b.timestamp),
+  };
+}
+
+const parseProduct = (raw: any): DetectedProduct | null => {
+  if (!raw || typeof raw.name !== "string" || typeof raw.category !== "string") return null;
+  const box = normalizeBox(raw.box);
+  if (typeof box === "string") return null;
+  return { ...raw, box, confidence: Number(raw.confidence) || 0, shoppingLink: String(raw.shoppingLink || "") };
+};
+
+/** Parses and sanity-checks a session file. Throws with a readable message. */
+export function parseSession(text: string): DetectionSession {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The session file is not valid JSON.");
+  }
+
+  if (raw?.format !== SESSION_FORMAT) {
+    throw new Error("This file is not a ShopVision session.");
+  }
+  if (typeof raw.version !== "number" || raw.version > SESSION_VERSION) {
+    throw new Error(`Session version ${raw.version} is not supported by this version of ShopVision.`);
+  }
+  if (!raw.video || typeof raw.video.id !== "string" || !Array.isArray(raw.frames)) {
+    throw new Error("The session file is missing its video or frame data.");
+  }
+
+  const frames: TimelineEntry[] = raw.frames
+    .filter((f: any) => typeof f?.timestamp === "number" && Array.isArray(f.products))
+    .map((f: any) => ({
+      timestamp: f.timestamp,
+      products: f.products.map(parseProduct).filter((p: DetectedProduct | null): p is DetectedProduct => !!p),
+    }));
+
+  return {
+    format: SESSION_FORMAT,
+    version: raw.version,
+    createdAt: String(raw.createdAt || ""),
+    video: {
+      id: raw.video.id,
+      src: typeof raw.video.src === "string" ? raw.video.src : undefined,
+      duration: Number(raw.video.duration) || 0,
+    },
+    provider: {
+      name: String(raw.provider?.name || "unknown"),
+      model: typeof raw.provider?.model === "string" ? raw.provider.model : undefined,
+    },
+    frames,
+  };
+}
+
+/** Recorded frames in the shape the replaying mock provider expects. */
+export function sessionToFixtures(session: DetectionSession): FixtureSet {
+  return {
+    [session.video.id]: session.frames.map(frame => ({
+      timestamp: frame.timestamp,
+      response: { products: frame.products },
+    })),
+  };
+}
+
+const vttTimestamp = (seconds: number) => {
+  const ms = Math.floor((seconds % 1) * 1000).toString().padStart(3, "0");
+  const h = Math.floor(seconds / 3600).toString().padStart(2, "0");
+  return `${h}:${formatTime(seconds % 3600).padStart(5, "0")}.${ms}`;
+};
+
+/**
+ * WebVTT metadata track with one cue per analyzed frame. Each cue lasts
+ * until the next analyzed frame and carries the products as JSON.
+ */
+export function sessionToWebVTT(session: DetectionSession): string {
+  const cues = session.frames.map((frame, i) => {
+    const end = i + 1 < session.frames.length
+      ? session.frames[i + 1].timestamp
+      : Math.max(session.video.duration, frame.timestamp + 1);
+    const payload = frame.products.map(p => ({
+      name: p.name,
+      category: p.category,
+      confidence: p.confidence,
+      box: p.box,
+      links: p.retailerLinks?.map(l => ({ label: l.label, url: l.url })) || [{ label: "Shop", url: p.shoppingLink }],
+    }));
+    return `${i + 1}\n${vttTimestamp(frame.timestamp)} --> ${vttTimestamp(end)}\n${JSON.stringify(payload)}`;
+  });
+  return ["WEBVTT - ShopVision product cues", ...cues].join("\n\n") + "\n";
+}
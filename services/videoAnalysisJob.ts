@@ -0,0 +1,150 @@
+import { DetectionProvider, ProductTimeline, TimelineEntry } from "../types";
+import { captureVideoFrame } from "./frameCapture";
+import { hammingDistance } from "./frameHash";
+import { SCENE_CHANGE_DISTANCE } from "./liveScan";
+import { buildAppearances } from "./productTimeline";
+import { createAbortError, isAbortError, throwIfAborted } from "./cancellation";
+import { DetectionErrorKind, errorKind } from "./detectionErrors";
+import { VideoSourceKind, attachSource, detectSourceKind } from "./videoSource";
+
+export type SamplingMode = "interval" | "scenes";
+
+export interface AnalysisProgress {
+  completed: number;
+  total: number;
+  analyzedFrames: number;
+  failedFrames: number;
+}
+
+export interface FailedSample {
+  timestamp: number;
+  kind: DetectionErrorKind;
+  message: string;
+}
+
+export interface FullVideoAnalysis extends ProductTimeline {
+  /** Sampled frames whose detection failed; they are left out of the timeline. */
+  failures: FailedSample[];
+}
+
+export interface FullVideoAnalysisOptions {
+  videoId: string;
+  sourceKind?: VideoSourceKind;
+  mode?: SamplingMode;
+  intervalSeconds?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export const DEFAULT_INTERVAL_SECONDS = 5;
+// In scene mode frames are probed this often and only cuts are analyzed
+const SCENE_PROBE_SECONDS = 0.5;
+const LOAD_TIMEOUT_MS = 15000;
+
+const waitForEvent = (video: HTMLVideoElement, event: string, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener("error", onError);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error("The video could not be decoded for analysis.")); };
+    const onAbort = () => { cleanup(); reject(createAbortError()); };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error("Timed out while reading the video for analysis."));
+    }, LOAD_TIMEOUT_MS);
+
+    video.addEventListener(event, onEvent, { once: true });
+    video.addEventListener("error", onError, { once: true });
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const seek = async (video: HTMLVideoElement, time: number, signal?: AbortSignal) => {
+  const seeked = waitForEvent(video, "seeked", signal);
+  video.currentTime = time;
+  await seeked;
+};
+
+/**
+ * Walks through the whole video on a detached <video> element, running
+ * detection on sampled frames, and returns the resulting product timeline.
+ * A frame whose detection fails is recorded in `failures` and skipped, so
+ * one blocked or flaky frame doesn't cost the rest. Rejects with an
+ * AbortError when `signal` fires, and with the last failure when no frame
+ * could be analyzed at all.
+ */
+export async function analyzeFullVideo(
+  src: string,
+  provider: DetectionProvider,
+  options: FullVideoAnalysisOptions
+): Promise<FullVideoAnalysis> {
+  const { videoId, sourceKind = detectSourceKind(src), mode = "interval", intervalSeconds = DEFAULT_INTERVAL_SECONDS, signal, onProgress } = options;
+
+  const video = document.createElement("video");
+  video.crossOrigin = "anonymous";
+  video.muted = true;
+  video.preload = "auto";
+  let detach = () => {};
+
+  try {
+    const loaded = waitForEvent(video, "loadeddata", signal);
+    // Surfaced by the await below; avoids an unhandled rejection if attaching throws
+    loaded.catch(() => {});
+    detach = await attachSource(video, src, sourceKind);
+    await loaded;
+
+    const duration = video.duration;
+    if (!Number.isFinite(duration) || duration <= 0) {
+      throw new Error("Full analysis needs a video with a known duration.");
+    }
+
+    const step = mode === "scenes" ? SCENE_PROBE_SECONDS : intervalSeconds;
+    const times: number[] = [];
+    for (let t = 0; t < duration; t += step) times.push(t);
+
+    const entries: TimelineEntry[] = [];
+    const failures: FailedSample[] = [];
+    let lastError: unknown;
+    let lastHash: string | undefined;
+
+    for (let i = 0; i < times.length; i++) {
+      throwIfAborted(signal);
+      await seek(video, times[i], signal);
+
+      const frame = await captureVideoFrame(video, undefined, signal);
+      if (frame) {
+        const isCut = !lastHash || !frame.frameHash
+          || hammingDistance(frame.frameHash, lastHash) > SCENE_CHANGE_DISTANCE;
+
+        if (mode === "interval" || isCut) {
+          try {
+            const response = await provider.detect(frame.base64, {
+              videoId,
+              timestamp: times[i],
+              frameHash: frame.frameHash,
+              mimeType: frame.mimeType,
+              crop: frame.crop,
+            }, signal);
+            entries.push({ timestamp: times[i], products: response.products });
+          } catch (error: any) {
+            if (isAbortError(error) || signal?.aborted) throw error;
+            lastError = error;
+            failures.push({ timestamp: times[i], kind: errorKind(error), message: error?.message || String(error) });
+          }
+          // Also after a failure, so a blocked scene isn't retried on every probe
+          lastHash = frame.frameHash;
+        }
+      }
+
+      onProgress?.({ completed: i + 1, total: times.length, analyzedFrames: entries.length, failedFrames: failures.length });
+    }
+
+    if (entries.length === 0 && lastError) throw lastError;
+    return { videoId, duration, appearances: buildAppearances(entries, duration), samples: entries, failures };
+  } finally {
+    detach();
+  }
+}
@@ -0,0 +1,19 @@
+// Hash only the head and tail of large files; enough to tell uploads apart
+const SAMPLE_BYTES = 2 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, "0")).join("");
+
+/**
+ * Derives a stable id for an uploaded file so that cached detections
+ * survive the blob URL changing on every upload or reload.
+ */
+export async function getFileVideoId(file: File): Promise<string> {
+  const head = file.slice(0, SAMPLE_BYTES);
+  const tail = file.size > SAMPLE_BYTES ? file.slice(-SAMPLE_BYTES) : new Blob();
+  const sizeTag = new TextEncoder().encode(`${file.size}:`);
+
+  const bytes = await new Blob([sizeTag, head, tail]).arrayBuffer();
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return `file:${toHex(digest)}`;
+}
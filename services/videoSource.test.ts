@@ -0,0 +1,223 @@
+import { readFile } from "node:fs/promises";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { extname, join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { detectSourceKind, parseSourceList, probeSource } from "./videoSource";
+
+const dash = vi.hoisted(() => ({ destroyed: 0 }));
+
+// dash.js needs Media Source Extensions; hand the manifest to the fake element instead
+vi.mock("dashjs", () => ({
+  MediaPlayer: () => ({
+    create: () => ({
+      initialize: (video: FakeVideo, url: string) => {
+        // Some failures surface before initialize even returns
+        if (url.includes("fails-early")) video.dispatchEvent(new Event("error"));
+        else video.src = url;
+      },
+      destroy: () => {
+        dash.destroyed++;
+      },
+    }),
+  }),
+}));
+
+const STREAMS = join(__dirname, "../fixtures/streams");
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".m4s": "video/iso.segment",
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".mpd": "application/dash+xml",
+};
+
+/** Serves the fixture streams under /cors/ with CORS headers and under /plain/ without. */
+const serveStreams = () =>
+  createServer(async (req, res) => {
+    const [, mode, file] = (req.url ?? "").split("/");
+    if (file === "broken.mp4") {
+      res.writeHead(200, { "Content-Type": "text/html", "Access-Control-Allow-Origin": "*" });
+      res.end("<html>Video moved</html>");
+      return;
+    }
+    try {
+      const body = await readFile(join(STREAMS, file));
+      res.writeHead(200, {
+        "Content-Type": CONTENT_TYPES[extname(file)] ?? "application/octet-stream",
+        ...(mode === "cors" ? { "Access-Control-Allow-Origin": "*" } : {}),
+      });
+      res.end(body);
+    } catch {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+
+const isMp4 = (bytes: Uint8Array) => new TextDecoder().decode(bytes.subarray(4, 8)) === "ftyp";
+
+/**
+ * Loads media the way a browser's <video> would as far as the probe can
+ * tell: anonymous requests need CORS, manifests pull in their init and media
+ * segments, and anything loaded without CORS taints the canvas.
+ */
+class FakeVideo extends EventTarget {
+  muted = false;
+  preload = "";
+  crossOrigin: string | null = null;
+  tainted = false;
+  released = false;
+
+  canPlayType(type: string) {
+    return type === "application/vnd.apple.mpegurl" ? "maybe" : "";
+  }
+
+  set src(url: string) {
+    this.load(url).then(
+      () => {
+        this.tainted = this.crossOrigin === null;
+        this.dispatchEvent(new Event("loadeddata"));
+      },
+      () => this.dispatchEvent(new Event("error")),
+    );
+  }
+
+  removeAttribute(name: string) {
+    if (name === "src") this.released = true;
+  }
+
+  private async fetchMedia(url: string) {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    if (this.crossOrigin !== null && !response.headers.get("access-control-allow-origin")) {
+      throw new Error("Blocked by CORS policy");
+    }
+    return { type: response.headers.get("content-type") ?? "", body: new Uint8Array(await response.arrayBuffer()) };
+  }
+
+  private async load(url?: string) {
+    if (!url) return;
+    const { type, body } = await this.fetchMedia(url);
+    const text = new TextDecoder().decode(body);
+    const segments =
+      type === "application/vnd.apple.mpegurl"
+        ? [text.match(/#EXT-X-MAP:URI="([^"]+)"/)?.[1], text.split("\n").find(line => line && !line.startsWith("#"))]
+        : type === "application/dash+xml"
+          ? [text.match(/initialization="([^"]+)"/)?.[1], text.match(/media="([^"]+)"/)?.[1]?.replace("$Number$", "1")]
+          : null;
+
+    if (!segments) {
+      if (!isMp4(body)) throw new Error(`Unsupported media: ${type}`);
+      return;
+    }
+    const [init, media] = segments;
+    if (!init || !media) throw new Error("Manifest has no segments");
+    const [initSegment] = await Promise.all([this.fetchMedia(new URL(init, url).href), this.fetchMedia(new URL(media, url).href)]);
+    if (!isMp4(initSegment.body)) throw new Error("Init segment isn't MP4");
+  }
+}
+
+class FakeCanvas {
+  width = 0;
+  height = 0;
+  private tainted = false;
+
+  getContext() {
+    return {
+      drawImage: (video: FakeVideo) => {
+        this.tainted ||= video.tainted;
+      },
+      getImageData: () => {
+        if (this.tainted) throw new Error("The canvas has been tainted by cross-origin data.");
+        return { data: new Uint8ClampedArray(4) };
+      },
+    };
+  }
+}
+
+let server: Server;
+let base = "";
+const videos: FakeVideo[] = [];
+
+beforeAll(async () => {
+  vi.stubGlobal("document", {
+    createElement: (tag: string) => {
+      if (tag !== "video") return new FakeCanvas();
+      const video = new FakeVideo();
+      videos.push(video);
+      return video;
+    },
+  });
+  server = serveStreams();
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe("detectSourceKind", () => {
+  it.each([
+    ["blob:http://localhost/4f1c", "file"],
+    ["https://cdn.example.com/live/master.m3u8", "hls"],
+    ["https://cdn.example.com/live/MASTER.M3U8#t=10", "hls"],
+    ["https://cdn.example.com/vod/manifest.mpd?token=abc", "dash"],
+    ["https://cdn.example.com/vod/clip.mp4", "progressive"],
+    ["https://cdn.example.com/watch?file=clip.m3u8", "progressive"],
+  ])("treats %s as %s", (url, kind) => {
+    expect(detectSourceKind(url)).toBe(kind);
+  });
+});
+
+describe("parseSourceList", () => {
+  it("splits on newlines and commas and trims", () => {
+    expect(parseSourceList(" https://a.example/1.mp4\nhttps://b.example/2.m3u8 ,http://c.example/3.mpd\n\n")).toEqual([
+      "https://a.example/1.mp4",
+      "https://b.example/2.m3u8",
+      "http://c.example/3.mpd",
+    ]);
+  });
+
+  it("drops anything that isn't an http(s) URL", () => {
+    expect(parseSourceList("ftp://a.example/1.mp4\njavascript:alert(1)\nclip.mp4\nhttps://ok.example/v.mp4")).toEqual([
+      "https://ok.example/v.mp4",
+    ]);
+  });
+});
+
+describe("probeSource", () => {
+  it("skips the probe for local files", async () => {
+    expect(await probeSource("blob:http://localhost/4f1c")).toEqual({ playable: true, canCapture: true });
+  });
+
+  it.each(["clip.mp4", "clip.m3u8", "clip.mpd"])("can capture %s served with CORS", async file => {
+    expect(await probeSource(`${base}/cors/${file}`)).toEqual({ playable: true, canCapture: true });
+  });
+
+  it.each(["clip.mp4", "clip.m3u8", "clip.mpd"])("plays %s without CORS but can't capture it", async file => {
+    expect(await probeSource(`${base}/plain/${file}`)).toEqual({ playable: true, canCapture: false });
+  });
+
+  it.each(["missing.mp4", "broken.mp4", "missing.m3u8", "missing.mpd"])("reports %s as unplayable", async file => {
+    expect(await probeSource(`${base}/cors/${file}`)).toEqual({ playable: false, canCapture: false });
+  });
+
+  it("destroys a player that attaches after the probe already failed", async () => {
+    const destroyedBefore = dash.destroyed;
+
+    expect(await probeSource(`${base}/cors/fails-early.mpd`)).toEqual({ playable: false, canCapture: false });
+    await vi.waitFor(() => expect(dash.destroyed - destroyedBefore).toBe(2));
+  });
+
+  it("releases every probe video so nothing keeps downloading", async () => {
+    videos.length = 0;
+    await probeSource(`${base}/cors/clip.mp4`);
+    await probeSource(`${base}/plain/clip.mp4`);
+
+    expect(videos.length).toBeGreaterThan(0);
+    expect(videos.every(video => video.released)).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+export type VideoSourceKind = "file" | "progressive" | "hls" | "dash";
+
+export interface VideoSource {
+  url: string;
+  kind: VideoSourceKind;
+  /** False when the source plays but its frames can't be read (no CORS). */
+  canCapture: boolean;
+}
+
+export interface CaptureProbeResult {
+  playable: boolean;
+  canCapture: boolean;
+}
+
+const PROBE_TIMEOUT_MS = 10000;
+
+export function detectSourceKind(url: string): VideoSourceKind {
+  if (url.startsWith("blob:")) return "file";
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith(".m3u8")) return "hls";
+  if (path.endsWith(".mpd")) return "dash";
+  return "progressive";
+}
+
+/** Accepts one URL per line (or comma separated) and drops anything unusable. */
+export function parseSourceList(input: string): string[] {
+  return input
+    .split(/[\n,]+/)
+    .map(line => line.trim())
+    .filter(line => {
+      try {
+        const { protocol } = new URL(line);
+        return protocol === "http:" || protocol === "https:";
+      } catch {
+        return false;
+      }
+    });
+}
+
+/**
+ * Attaches a stream to a <video> element, using hls.js / dash.js where the
+ * browser can't play the manifest natively. Returns a detach function.
+ */
+export async function attachSource(video: HTMLVideoElement, url: string, kind: VideoSourceKind): Promise<() => void> {
+  if (kind === "hls" && !video.canPlayType("application/vnd.apple.mpegurl")) {
+    const { default: Hls } = await import("hls.js");
+    if (Hls.isSupported()) {
+      const hls = new Hls();
+      hls.loadSource(url);
+      hls.attachMedia(video);
+      return () => hls.destroy();
+    }
+  }
+
+  if (kind === "dash") {
+    const { MediaPlayer } = await import("dashjs");
+    const player = MediaPlayer().create();
+    player.initialize(video, url, false);
+    return () => player.destroy();
+  }
+
+  video.src = url;
+  return () => {
+    video.removeAttribute("src");
+    video.load();
+  };
+}
+
+interface LoadedProbe {
+  video: HTMLVideoElement;
+  detach: () => void;
+}
+
+const loadProbe = (url: string, kind: VideoSourceKind, crossOrigin: boolean) =>
+  new Promise<LoadedProbe | null>(resolve => {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.preload = "auto";
+    if (crossOrigin) video.crossOrigin = "anonymous";
+
+    let detach: (() => void) | null = null;
+    let released = false;
+    let finished = false;
+    // Stops the player and the download; a player that attaches only after
+    // this ran is torn down as soon as it does
+    const release = () => {
+      if (released) return;
+      released = true;
+      detach?.();
+      video.removeAttribute("src");
+      video.load();
+    };
+    const finish = (ok: boolean) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+      if (ok) {
+        resolve({ video, detach: release });
+      } else {
+        release();
+        resolve(null);
+      }
+    };
+    const timer = setTimeout(() => finish(false), PROBE_TIMEOUT_MS);
+    video.addEventListener("loadeddata", () => finish(true), { once: true });
+    video.addEventListener("error", () => finish(false), { once: true });
+
+    attachSource(video, url, kind).then(d => {
+      detach = d;
+      if (released) d();
+    }, () => finish(false));
+  });
+
+/**
+ * Checks up front whether a remote source can be played and whether its
+ * frames can be read back for analysis, instead of discovering a tainted
+ * canvas at the first pause.
+ */
+export async function probeSource(url: string, kind: VideoSourceKind = detectSourceKind(url)): Promise<CaptureProbeResult> {
+  if (kind === "file") return { playable: true, canCapture: true };
+
+  const probe = await loadProbe(url, kind, true);
+  if (probe) {
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = 1;
+    const ctx = canvas.getContext("2d");
+    let canCapture = false;
+    try {
+      ctx?.drawImage(probe.video, 0, 0, 1, 1);
+      ctx?.getImageData(0, 0, 1, 1);
+      canCapture = !!ctx;
+    } catch {
+      canCapture = false;
+    }
+    probe.detach();
+    return { playable: true, canCapture };
+  }
+
+  // A server without CORS headers rejects the anonymous request outright;
+  // it may still play without it, just not be analyzable.
+  const fallback = await loadProbe(url, kind, false);
+  fallback?.detach();
+  return { playable: !!fallback, canCapture: false };
+}
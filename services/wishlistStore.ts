@@ -0,0 +1,91 @@
+import { DetectedProduct, SavedProduct } from "../types";
+import { STORES, isIndexedDBAvailable, withStore } from "./idb";
+
+const FALLBACK_STORAGE_KEY = "shopvision.wishlist";
+
+// Saving the same item from the same video again just refreshes the entry
+export const wishlistKey = (videoId: string, product: DetectedProduct) =>
+  `${videoId}|${product.category.toLowerCase()}|${product.name.trim().toLowerCase()}`;
+
+const readFallback = (): SavedProduct[] => {
+  try {
+    return JSON.parse(localStorage.getItem(FALLBACK_STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const writeFallback = (items: SavedProduct[]) =>
+  localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify(items));
+
+const newestFirst = (items: SavedProduct[]) => [...items].sort((a, b) => b.savedAt - a.savedAt);
+
+/** Saved items live in IndexedDB, or localStorage where that's unavailable. */
+export async function loadWishlist(): Promise<SavedProduct[]> {
+  if (!isIndexedDBAvailable()) return newestFirst(readFallback());
+  return newestFirst(await withStore<SavedProduct[]>(STORES.wishlist, "readonly", store => store.getAll()));
+}
+
+export async function saveToWishlist(item: SavedProduct): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    writeFallback([item, ...readFallback().filter(i => i.key !== item.key)]);
+    return;
+  }
+  await withStore(STORES.wishlist, "readwrite", store => store.put(item));
+}
+
+export async function removeFromWishlist(key: string): Promise<void> {
+  if (!isIndexedDBAvailable()) {
+    writeFallback(readFallback().filter(i => i.key !== key));
+    return;
+  }
+  await withStore(STORES.wishlist, "readwrite", store => store.delete(key));
+}
+
+export function wishlistToJSON(items: SavedProduct[]): string {
+  return JSON.stringify(
+    items.map(({ key, ...item }) => ({
+      ...item,
+      thumbnail: item.thumbnail ? `data:image/jpeg;base64,${item.thumbnail}` : null,
+      savedAt: new Date(item.savedAt).toISOString(),
+    })),
+    null,
+    2
+  );
+}
+
+const CSV_COLUMNS = ["name", "category", "confidence", "brand", "price", "link", "video", "timestamp", "savedAt"];
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function wishlistToCSV(items: SavedProduct[]): string {
+  const rows = items.map(({ product, videoSrc, timestamp, savedAt }) => {
+    const price = product.attributes?.priceRange;
+    return [
+      product.name,
+      product.category,
+      product.confidence.toFixed(2),
+      product.attributes?.brand,
+      price ? `${price.min}-${price.max} ${price.currency}` : "",
+      product.shoppingLink,
+      // Blob URLs are meaningless outside this browser session
+      videoSrc.startsWith("blob:") ? "uploaded file" : videoSrc,
+      timestamp.toFixed(2),
+      new Date(savedAt).toISOString(),
+    ].map(csvCell).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a tick to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -1,4 +1,13 @@
 
+export type ProductCategory =
+  | "fashion"
+  | "electronics"
+  | "home decor"
+  | "beauty"
+  | "accessories"
+  | "furniture"
+  | "food";
+
 export interface BoundingBox {
   ymin: number;
   xmin: number;
@@ -6,6 +15,46 @@ export interface BoundingBox {
   xmax: number;
 }
 
+/** One row of a merchandising product feed (JSON or CSV). */
+export interface CatalogProduct {
+  id: string;
+  title: string;
+  imageUrl: string;
+  url: string;
+  price?: number;
+  currency?: string;
+  category?: string;
+  brand?: string;
+}
+
+export interface SimilarProduct {
+  product: CatalogProduct;
+  /** Cosine similarity of the image embeddings, 0-1. */
+  score: number;
+}
+
+export interface RetailerLink {
+  retailerId: string;
+  label: string;
+  url: string;
+}
+
+export interface PriceRange {
+  min: number;
+  max: number;
+  currency: string;
+}
+
+export interface ProductAttributes {
+  brand?: string;
+  color?: string;
+  material?: string;
+  styleKeywords?: string[];
+  priceRange?: PriceRange;
+}
+
+export type DetectionOrigin = "model" | "user" | "curated";
+
 export interface DetectedProduct {
   id: string;
   name: string;
@@ -13,8 +62,140 @@ export interface DetectedProduct {
   confidence: number;
   box: BoundingBox;
   shoppingLink: string;
+  retailerLinks?: RetailerLink[];
+  attributes?: ProductAttributes;
+  /** "user" for items identified from a region the viewer drew, "curated" for editor tags. */
+  origin?: DetectionOrigin;
+}
+
+export interface CuratedTag extends DetectedProduct {
+  /** Video time range, in seconds, during which the tag is shown. */
+  start: number;
+  end: number;
+}
+
+export interface RegionIdentification {
+  name: string;
+  category: string;
+  confidence: number;
+  attributes?: ProductAttributes;
+}
+
+export interface ProductDescription extends ProductAttributes {
+  name: string;
+  description: string;
+}
+
+export interface TrackedProduct extends DetectedProduct {
+  firstSeen: number;
+  lastSeen: number;
+  screenTime: number;
+}
+
+export interface DetectionWarning {
+  index: number;
+  reason:
+    | "invalid_response"
+    | "invalid_item"
+    | "missing_name"
+    | "invalid_category"
+    | "invalid_box"
+    | "invalid_confidence";
+  message: string;
+  item?: unknown;
 }
 
 export interface DetectionResponse {
   products: DetectedProduct[];
+  warnings?: DetectionWarning[];
+}
+
+export interface TimelineEntry {
+  timestamp: number;
+  products: DetectedProduct[];
+}
+
+export interface SavedProduct {
+  key: string;
+  product: DetectedProduct;
+  videoId: string;
+  videoSrc: string;
+  timestamp: number;
+  thumbnail: string | null;
+  savedAt: number;
+}
+
+export interface ProductAppearance {
+  key: string;
+  product: DetectedProduct;
+  start: number;
+  end: number;
+}
+
+export interface ProductTimeline {
+  videoId: string;
+  duration: number;
+  appearances: ProductAppearance[];
+  samples: TimelineEntry[];
+}
+
+export interface FrameContext {
+  videoId: string;
+  timestamp: number;
+  frameHash?: string;
+  /** Encoding of the image passed to `detect`; JPEG when unset. */
+  mimeType?: string;
+  /**
+   * Part of the frame the image shows (0-1000) when it was cropped before
+   * sending. Providers return boxes relative to the full frame regardless.
+   */
+  crop?: BoundingBox;
+}
+
+/** Body of a POST to the detection proxy's /api/detect. */
+export interface DetectRequest {
+  /** Base64 JPEG without the data URL prefix. */
+  image: string;
+  frame: FrameContext;
+}
+
+/** Body of a POST to the detection proxy's /api/describe. */
+export interface DescribeRequest {
+  image: string;
+  product: Pick<DetectedProduct, "name" | "category">;
+}
+
+/** Body of a POST to the detection proxy's /api/identify. */
+export interface IdentifyRequest {
+  image: string;
+  region: BoundingBox;
+  frame: FrameContext;
+}
+
+export interface IdentifyResponse {
+  /** Null when nothing purchasable was found in the region. */
+  identification: RegionIdentification | null;
+}
+
+/** Error body returned by the detection proxy. */
+export interface ProxyErrorResponse {
+  error: {
+    kind: string;
+    message: string;
+  };
+}
+
+export interface DetectionProvider {
+  name: string;
+  model?: string;
+  detect: (base64Image: string, frame: FrameContext, signal?: AbortSignal) => Promise<DetectionResponse>;
+  /** Optional follow-up that identifies a single item from a close crop. */
+  describe?: (cropBase64: string, product: DetectedProduct, signal?: AbortSignal) => Promise<ProductDescription>;
+  /** Optional focused identification of a viewer-selected region. */
+  identify?: (
+    cropBase64: string,
+    region: BoundingBox,
+    frame: FrameContext,
+    signal?: AbortSignal
+  ) => Promise<RegionIdentification | null>;
 }
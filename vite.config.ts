@@ -1,18 +1,68 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+
+// `vite build --mode lib` packages the <shopvision-player> custom element
+// instead of the app. Tailwind is compiled into the bundle because the CDN
+// stylesheet can't reach into its shadow root.
+const libraryBuild = {
+  // Assets such as the preprocessing worker resolve next to the bundle, so
+  // dist/embed/ can be served from any path
+  base: './',
+  build: {
+    outDir: 'dist/embed',
+    lib: {
+      entry: path.resolve(__dirname, 'embed/index.ts'),
+      name: 'ShopVision',
+      formats: ['es' as const],
+      fileName: 'shopvision-player',
+    },
+  },
+  css: {
+    postcss: {
+      plugins: [
+        tailwindcss({
+          content: [
+            path.resolve(__dirname, 'embed/**/*.{ts,tsx}'),
+            path.resolve(__dirname, 'components/{EmbeddedPlayer,VideoPlayer,DetectionOverlay}.tsx'),
+          ],
+        }),
+      ],
+    },
+  },
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The key stays on the detection proxy (see server/). Only app builds can
+    // opt into calling Gemini from the browser; the embed never gets the key.
+    const directGemini = mode !== 'lib' && env.VITE_DIRECT_GEMINI === 'true';
+    const keyDefines = directGemini
+      ? {
+          'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+          'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        }
+      : {};
     return {
+      ...(mode === 'lib' ? libraryBuild : {}),
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        ...keyDefines,
+        'process.env.DIRECT_GEMINI': JSON.stringify(String(directGemini)),
+        'process.env.DETECTION_PROXY_URL': JSON.stringify(env.DETECTION_PROXY_URL || ''),
+        'process.env.DETECTION_PROVIDER': JSON.stringify(env.DETECTION_PROVIDER),
+        'process.env.ANALYTICS_URL': JSON.stringify(env.ANALYTICS_URL),
+        'process.env.ANALYTICS_DEBUG': JSON.stringify(env.ANALYTICS_DEBUG),
+        // Vite only replaces NODE_ENV for app builds; React reads it at runtime
+        ...(mode === 'lib' ? { 'process.env.NODE_ENV': JSON.stringify('production') } : {})
       },
       resolve: {
         alias: {